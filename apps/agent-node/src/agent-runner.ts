@@ -0,0 +1,165 @@
+// =============================================================================
+// TERMINUS AGENT NODE - Agent Runner
+// =============================================================================
+// Executes an AGENT_JOB: the LLM plans tool calls, the node runs them with its
+// local tools, then the LLM summarizes the results for the user.
+// =============================================================================
+
+import type { AgentJobMessage, AgentJobResultMessage } from '@terminus/protocol';
+import { getHostedAgent, type HostedAgent } from './agents.js';
+import { executeTool, getToolManifest } from './tools.js';
+import { chat, type ChatMessage } from './llm.js';
+import type { ProgressEmitter } from './progress.js';
+import { log } from './logger.js';
+
+type AgentJobOutcome = Omit<AgentJobResultMessage['payload'], 'jobId'>;
+type ToolUse = NonNullable<AgentJobOutcome['toolsUsed']>[number];
+
+const MAX_TOOL_CALLS = 5;
+
+function history(payload: AgentJobMessage['payload']): ChatMessage[] {
+    return (payload.context?.previousMessages ?? [])
+        .filter(m => m.role === 'user' || m.role === 'assistant')
+        .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }));
+}
+
+function describeTools(agent: HostedAgent): string {
+    return agent.tools
+        .map(t => {
+            const manifest = getToolManifest(t);
+            const params = Object.keys((manifest?.parameters.properties ?? {}) as Record<string, unknown>);
+            return `- ${t}(${params.join(', ')}): ${manifest?.description ?? ''}`;
+        })
+        .join('\n');
+}
+
+function parsePlan(text: string, agent: HostedAgent): { tool: string; params: unknown }[] {
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return [];
+
+    try {
+        const parsed = JSON.parse(jsonMatch[0]);
+        const calls: { tool: string; params?: unknown }[] = Array.isArray(parsed.toolCalls) ? parsed.toolCalls : [];
+        // Only tools the agent is allowed to use
+        return calls
+            .filter(c => typeof c.tool === 'string' && agent.tools.includes(c.tool))
+            .slice(0, MAX_TOOL_CALLS)
+            .map(c => ({ tool: c.tool, params: c.params ?? {} }));
+    } catch {
+        return [];
+    }
+}
+
+/** Outcome for an agent job cancelled before it started (e.g. while waiting for a slot) */
+export function cancelledOutcome(): AgentJobOutcome {
+    return {
+        success: false,
+        response: '',
+        toolsUsed: [],
+        metrics: { llmTokensUsed: 0, executionTimeMs: 0 },
+        error: { code: 'CANCELLED', message: 'Job was cancelled' },
+    };
+}
+
+export async function runAgentJob(
+    payload: AgentJobMessage['payload'],
+    options: { signal: AbortSignal; progress: ProgressEmitter }
+): Promise<AgentJobOutcome> {
+    const { signal, progress } = options;
+    const startTime = Date.now();
+    const agent = getHostedAgent(payload.agentType);
+
+    if (!agent) {
+        return {
+            success: false,
+            response: '',
+            metrics: { executionTimeMs: 0 },
+            error: { code: 'UNKNOWN_AGENT', message: `Agent not hosted on this node: ${payload.agentType}` },
+        };
+    }
+
+    let llmTokensUsed = 0;
+    const toolsUsed: ToolUse[] = [];
+
+    try {
+        // Step 1: Plan tool calls
+        const plan = await chat({
+            messages: [
+                {
+                    role: 'system',
+                    content: `${agent.systemPrompt}
+
+You have these tools:
+${describeTools(agent)}
+
+Based on the user request, plan which tools to call.
+Return ONLY valid JSON:
+{
+  "toolCalls": [
+    { "tool": "toolName", "params": { "param1": "value1" } }
+  ]
+}`,
+                },
+                ...history(payload),
+                { role: 'user', content: payload.userQuery },
+            ],
+            signal,
+        });
+        llmTokensUsed += plan.tokensUsed;
+
+        // Step 2: Execute tools locally
+        for (const call of parsePlan(plan.text, agent)) {
+            signal.throwIfAborted();
+            log('info', 'Agent', `🔧 ${agent.id}.${call.tool}`);
+            progress.emit('TOOL_CALL', { tool: call.tool, params: call.params });
+
+            const result = await executeTool(call.tool, call.params);
+            toolsUsed.push({
+                name: call.tool,
+                params: call.params,
+                result: result.success ? result.output : { error: result.error },
+            });
+        }
+
+        // Step 3: Summarize, streaming tokens back as they arrive
+        const summary = await chat({
+            messages: [
+                {
+                    role: 'system',
+                    content: `You are ${agent.name}. Summarize the results of your tool calls for the user. Be helpful and concise.`,
+                },
+                ...history(payload),
+                {
+                    role: 'user',
+                    content: `User request: "${payload.userQuery}"
+
+Tool results:
+${JSON.stringify(toolsUsed, null, 2)}
+
+Provide a helpful summary.`,
+                },
+            ],
+            signal,
+            onToken: token => progress.emit('TOKEN', token),
+        });
+        llmTokensUsed += summary.tokensUsed;
+
+        return {
+            success: true,
+            response: summary.text,
+            toolsUsed,
+            metrics: { llmTokensUsed, executionTimeMs: Date.now() - startTime },
+        };
+    } catch (error) {
+        const cancelled = signal.aborted;
+        return {
+            success: false,
+            response: '',
+            toolsUsed,
+            metrics: { llmTokensUsed, executionTimeMs: Date.now() - startTime },
+            error: cancelled
+                ? { code: 'CANCELLED', message: 'Job was cancelled' }
+                : { code: 'AGENT_ERROR', message: (error as Error).message },
+        };
+    }
+}
@@ -0,0 +1,92 @@
+// =============================================================================
+// TERMINUS AGENT NODE - Hosted Agents
+// =============================================================================
+// Agent definitions this node can execute for AGENT_JOB requests.
+// Each agent is a system prompt plus the subset of local tools it may call.
+// =============================================================================
+
+import { readFileSync } from 'fs';
+import { hasTool } from './tools.js';
+import { log } from './logger.js';
+
+export interface HostedAgent {
+    id: string;                  // Matches the control plane's agent type, e.g. 'travel-planner'
+    name: string;
+    systemPrompt: string;
+    tools: string[];             // Names from the local tool registry
+}
+
+const BUILTIN_AGENTS: HostedAgent[] = [
+    {
+        id: 'travel-planner',
+        name: 'Travel Planner',
+        systemPrompt: 'You are a travel planning expert. Help users plan trips by researching destinations, transport and accommodation.',
+        tools: ['webSearch', 'fetchUrl'],
+    },
+    {
+        id: 'budget-planner',
+        name: 'Budget Planner',
+        systemPrompt: 'You are a personal finance expert. Help users build budgets and add up their expenses accurately.',
+        tools: ['calculateSum', 'webSearch'],
+    },
+    {
+        id: 'tech-support',
+        name: 'Tech Support',
+        systemPrompt: 'You are a technical support specialist. Diagnose problems and look up documentation for the user.',
+        tools: ['webSearch', 'fetchUrl', 'runShellCommand'],
+    },
+];
+
+const agents = new Map<string, HostedAgent>();
+
+/**
+ * Load built-in agents plus any defined in AGENT_DEFINITIONS_FILE (JSON array of HostedAgent).
+ * Tools not present in the local registry are dropped.
+ */
+export function loadHostedAgents(): HostedAgent[] {
+    agents.clear();
+    const definitions = [...BUILTIN_AGENTS];
+
+    const file = process.env.AGENT_DEFINITIONS_FILE;
+    if (file) {
+        try {
+            definitions.push(...JSON.parse(readFileSync(file, 'utf-8')) as HostedAgent[]);
+        } catch (error) {
+            log('error', 'Agents', `Failed to load ${file}: ${(error as Error).message}`);
+        }
+    }
+
+    for (const agent of definitions) {
+        const tools = agent.tools.filter(hasTool);
+        agents.set(agent.id, { ...agent, tools });
+    }
+
+    return Array.from(agents.values());
+}
+
+export function getHostedAgent(id: string): HostedAgent | undefined {
+    return agents.get(id);
+}
+
+export function getHostedAgentIds(): string[] {
+    return Array.from(agents.keys());
+}
+
+/**
+ * Agent types this node advertises in AUTH.
+ * NODE_AGENT_TYPES (comma-separated) narrows the hosted set; defaults to all hosted agents.
+ */
+export function getConfiguredAgentTypes(): string[] {
+    const configured = process.env.NODE_AGENT_TYPES;
+    if (!configured) {
+        return getHostedAgentIds();
+    }
+
+    const requested = configured.split(',').map(t => t.trim()).filter(Boolean);
+    for (const type of requested) {
+        if (!agents.has(type)) {
+            log('warn', 'Agents', `⚠️ NODE_AGENT_TYPES lists ${type}, which this node doesn't host`);
+        }
+    }
+    return requested.filter(t => agents.has(t));
+}
@@ -0,0 +1,89 @@
+// =============================================================================
+// TERMINUS AGENT NODE - Artifact Cache
+// =============================================================================
+// Content-addressed cache of the code jobs run (agent scripts and wasm modules),
+// in NODE_ARTIFACT_CACHE_DIR (~/.terminus/artifacts) as one file per sha256.
+// The control plane assigns jobs by hash and nodes fetch what isn't here (see
+// artifacts.ts). Bytes are checked against their hash on the way in and on the
+// way out: a corrupted or tampered file is dropped, never run. The cache is
+// bounded by NODE_ARTIFACT_CACHE_MB, evicting the least recently used first.
+// =============================================================================
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, rmSync, statSync, utimesSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import os from 'os';
+import { hashContent } from '@terminus/protocol';
+import { log } from './logger.js';
+
+const DEFAULT_CACHE_DIR = join(os.homedir(), '.terminus', 'artifacts');
+const CACHE_LIMIT_BYTES = parseInt(process.env.NODE_ARTIFACT_CACHE_MB ?? '256', 10) * 1024 * 1024;
+const HASH_FILE = /^[0-9a-f]{64}$/;
+
+function getCacheDir(): string {
+    return process.env.NODE_ARTIFACT_CACHE_DIR ?? DEFAULT_CACHE_DIR;
+}
+
+function artifactPath(hash: string): string {
+    return join(getCacheDir(), hash);
+}
+
+/**
+ * Remove least recently used artifacts until the cache fits its limit. The
+ * artifact just written is kept even if it alone is over the limit.
+ */
+function evict(keep: string): void {
+    const dir = getCacheDir();
+    const entries = readdirSync(dir)
+        .filter(name => HASH_FILE.test(name))
+        .map(name => ({ name, ...statSync(join(dir, name)) }));
+
+    let total = entries.reduce((sum, e) => sum + e.size, 0);
+    entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const entry of entries) {
+        if (total <= CACHE_LIMIT_BYTES) break;
+        if (entry.name === keep) continue;
+        rmSync(join(dir, entry.name), { force: true });
+        total -= entry.size;
+        log('info', 'Artifacts', `🧹 Evicted ${entry.name.slice(0, 12)} from cache`);
+    }
+}
+
+/**
+ * Store artifact bytes under their hash. Throws if the bytes don't match it.
+ */
+export function cacheArtifact(hash: string, bytes: Uint8Array): void {
+    const actual = hashContent(bytes);
+    if (actual !== hash) {
+        throw new Error(`Artifact hash mismatch: expected ${hash}, got ${actual}`);
+    }
+
+    const dir = getCacheDir();
+    if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+    }
+    // Write then rename, so a concurrent reader never sees a partial artifact
+    const file = artifactPath(hash);
+    const temp = `${file}.${process.pid}.tmp`;
+    writeFileSync(temp, bytes);
+    renameSync(temp, file);
+    evict(hash);
+}
+
+/**
+ * Read a cached artifact, or undefined if it isn't cached (or failed verification).
+ */
+export function loadArtifact(hash: string): Uint8Array | undefined {
+    const file = artifactPath(hash);
+    if (!existsSync(file)) return undefined;
+
+    const bytes = readFileSync(file);
+    if (hashContent(bytes) !== hash) {
+        log('warn', 'Artifacts', `⚠️ Dropping cached artifact ${hash.slice(0, 12)}: contents don't match its hash`);
+        rmSync(file, { force: true });
+        return undefined;
+    }
+    // Mark as recently used for eviction
+    const now = new Date();
+    utimesSync(file, now, now);
+    return bytes;
+}
@@ -0,0 +1,110 @@
+// =============================================================================
+// TERMINUS AGENT NODE - Artifact Fetcher
+// =============================================================================
+// Resolves the code a job runs from its content hash: from the local cache
+// (artifact-cache.ts) if it's there, otherwise by asking the control plane
+// (FETCH_ARTIFACT → ARTIFACT). Fetched bytes are verified against the hash
+// before they're cached or run. Concurrent requests for the same hash share
+// one fetch.
+// =============================================================================
+
+import WebSocket from 'ws';
+import {
+    type ArtifactMessage,
+    type FetchArtifactMessage,
+    createBaseMessage,
+    hashContent,
+    serializeMessage,
+} from '@terminus/protocol';
+import { cacheArtifact, loadArtifact } from './artifact-cache.js';
+import { getSocket, hasFeature, isConnected } from './connection.js';
+import { log } from './logger.js';
+
+const FETCH_TIMEOUT = 30_000;
+
+interface PendingFetch {
+    promise: Promise<Uint8Array>;
+    resolve: (bytes: Uint8Array) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+const pendingFetches = new Map<string, PendingFetch>();
+
+/**
+ * Get an artifact's bytes by hash, fetching it from the control plane if it
+ * isn't cached. Rejects if it can't be fetched or doesn't match its hash.
+ */
+export function getArtifact(hash: string): Promise<Uint8Array> {
+    const cached = loadArtifact(hash);
+    if (cached) return Promise.resolve(cached);
+
+    const pending = pendingFetches.get(hash);
+    if (pending) return pending.promise;
+
+    const socket = getSocket();
+    if (!isConnected() || !socket || socket.readyState !== WebSocket.OPEN) {
+        return Promise.reject(new Error('Not connected to the control plane'));
+    }
+    if (!hasFeature('artifacts')) {
+        return Promise.reject(new Error('Control plane does not serve artifacts'));
+    }
+
+    let resolve!: (bytes: Uint8Array) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<Uint8Array>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    const timer = setTimeout(() => settle(hash, new Error(`Timed out fetching artifact ${hash.slice(0, 12)}`)), FETCH_TIMEOUT);
+    pendingFetches.set(hash, { promise, resolve, reject, timer });
+
+    const request: FetchArtifactMessage = {
+        ...createBaseMessage('FETCH_ARTIFACT'),
+        type: 'FETCH_ARTIFACT',
+        payload: { hash },
+    };
+    socket.send(serializeMessage(request));
+    log('info', 'Artifacts', `📥 Fetching ${hash.slice(0, 12)}`);
+    return promise;
+}
+
+function settle(hash: string, outcome: Uint8Array | Error): void {
+    const pending = pendingFetches.get(hash);
+    if (!pending) return;
+    pendingFetches.delete(hash);
+    clearTimeout(pending.timer);
+    if (outcome instanceof Error) pending.reject(outcome);
+    else pending.resolve(outcome);
+}
+
+export function handleArtifact(message: ArtifactMessage): void {
+    const { hash, content, error } = message.payload;
+    if (!pendingFetches.has(hash)) return;
+
+    if (content === undefined) {
+        settle(hash, new Error(error ?? `Artifact ${hash.slice(0, 12)} unavailable`));
+        return;
+    }
+
+    const bytes = Buffer.from(content, 'base64');
+    if (hashContent(bytes) !== hash) {
+        settle(hash, new Error(`Artifact bytes don't match hash ${hash}`));
+        return;
+    }
+    try {
+        cacheArtifact(hash, bytes);
+    } catch (err) {
+        log('warn', 'Artifacts', `⚠️ Failed to cache artifact ${hash.slice(0, 12)}: ${(err as Error).message}`);
+    }
+    settle(hash, bytes);
+}
+
+/**
+ * Fail every in-flight fetch (the connection they were sent on is gone).
+ */
+export function failArtifactFetches(reason: string): void {
+    for (const hash of [...pendingFetches.keys()]) {
+        settle(hash, new Error(reason));
+    }
+}
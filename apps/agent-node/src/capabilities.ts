@@ -7,9 +7,12 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import os from 'os';
+import { detectPythonRuntime } from './python-runner.js';
 
 const execAsync = promisify(exec);
 
+const MEMORY_PER_JOB_GB = 0.5;        // Memory budgeted per concurrent job
+
 export interface NodeSpecs {
     os: string;
     arch: string;
@@ -78,9 +81,15 @@ export async function discoverCapabilities(): Promise<DiscoveredCapabilities> {
         capabilities.push(`python-${pythonVersion.split('.').slice(0, 2).join('.')}`);
     }
 
+    // Python runtime for agent scripts (see python-runner.ts)
+    if (await detectPythonRuntime()) capabilities.push('runtime:python');
+
     // Check Node.js
     capabilities.push(`nodejs-${process.version.slice(1).split('.')[0]}`);
 
+    // WASM runtime runs on the built-in WebAssembly and WASI support (see wasm-runner.ts)
+    capabilities.push('runtime:wasm');
+
     // Check for common tools
     if (await checkCommand('ffmpeg')) capabilities.push('ffmpeg');
     if (await checkCommand('chromium') || await checkCommand('chromium-browser') || await checkCommand('google-chrome')) {
@@ -90,7 +99,8 @@ export async function discoverCapabilities(): Promise<DiscoveredCapabilities> {
     if (await checkCommand('git')) capabilities.push('git');
 
     // Check Docker
-    if (await checkDocker()) capabilities.push('docker');
+    // Docker also backs the container runtime (see container-runner.ts)
+    if (await checkDocker()) capabilities.push('docker', 'runtime:container');
 
     // Check GPU
     const gpuName = await checkGPU();
@@ -112,3 +122,15 @@ export async function discoverCapabilities(): Promise<DiscoveredCapabilities> {
 
     return { capabilities, specs };
 }
+
+/**
+ * How many jobs to run at once: one per core, limited by memory.
+ * NODE_MAX_CONCURRENT_JOBS overrides the derived value.
+ */
+export function deriveMaxConcurrentJobs(specs: NodeSpecs): number {
+    const override = parseInt(process.env.NODE_MAX_CONCURRENT_JOBS ?? '', 10);
+    if (override > 0) return override;
+
+    const byMemory = Math.floor(specs.totalMemoryGB / MEMORY_PER_JOB_GB);
+    return Math.max(Math.min(specs.cpuCores, byMemory), 1);
+}
@@ -5,20 +5,28 @@
 import WebSocket from 'ws';
 import { config } from '@terminus/config';
 import {
+    type AuthChallengeMessage,
     type AuthMessage,
     type HeartbeatMessage,
     type TerminusMessage,
     type AuthAckMessage,
-    type JobAssignMessage,
     type NodeStatus,
+    type ProtocolFeature,
+    type ToolManifest,
+    PROTOCOL_VERSION,
+    featuresForVersion,
+    createWalletAuthMessage,
     parseMessage,
     serializeMessage,
     createBaseMessage,
 } from '@terminus/protocol';
 import { log, COLORS } from './logger.js';
 import { getCpuUsage, getMemoryUsage } from './metrics.js';
-import { handleJobAssign } from './job-handler.js';
-import { discoverCapabilities, type NodeSpecs } from './capabilities.js';
+import { handleAgentJob, handleJobAssign, handleJobCancel } from './job-handler.js';
+import { ackResult, replayOutbox } from './outbox.js';
+import { failArtifactFetches, handleArtifact } from './artifacts.js';
+import { type NodeSpecs } from './capabilities.js';
+import type { NodeWallet } from './keystore.js';
 
 // -----------------------------------------------------------------------------
 // State
@@ -27,18 +35,35 @@ import { discoverCapabilities, type NodeSpecs } from './capabilities.js';
 let socket: WebSocket | null = null;
 let heartbeatInterval: NodeJS.Timeout | null = null;
 let reconnectAttempt = 0;
+let reconnectDisabled = false;
 let isAuthenticated = false;
+let sessionFeatures: ProtocolFeature[] = [];
+let sessionToken: string | undefined;       // Presented in AUTH to resume after a reconnect
+
+// Node runtime version reported in AUTH (protocol version is negotiated separately)
+const NODE_VERSION = '0.0.1';
 
 export let currentStatus: NodeStatus = 'IDLE';
 export let activeJobs = 0;
 export let nodeId: string;
 export let capabilities: string[];
 export let specs: NodeSpecs;
+export let maxConcurrentJobs = 1;
+export let agentTypes: string[] = [];
+let toolManifests: ToolManifest[] = [];
+let wallet: NodeWallet | null = null;
 
-export function setNodeInfo(id: string, caps: string[], nodeSpecs: NodeSpecs): void {
+export function setNodeInfo(id: string, caps: string[], nodeSpecs: NodeSpecs, maxJobs: number, tools: ToolManifest[]): void {
     nodeId = id;
     capabilities = caps;
     specs = nodeSpecs;
+    maxConcurrentJobs = maxJobs;
+    toolManifests = tools;
+}
+
+export function setAgentInfo(types: string[], nodeWallet: NodeWallet | null): void {
+    agentTypes = types;
+    wallet = nodeWallet;
 }
 
 export function setStatus(status: NodeStatus, jobs: number): void {
@@ -50,6 +75,17 @@ export function getSocket(): WebSocket | null {
     return socket;
 }
 
+export function isConnected(): boolean {
+    return isAuthenticated;
+}
+
+/**
+ * Check whether a protocol feature was enabled for the current session.
+ */
+export function hasFeature(feature: ProtocolFeature): boolean {
+    return sessionFeatures.includes(feature);
+}
+
 // -----------------------------------------------------------------------------
 // Connect
 // -----------------------------------------------------------------------------
@@ -61,25 +97,24 @@ export function connect(): void {
     socket = new WebSocket(url);
 
     socket.on('open', () => {
-        log('info', 'Connection', '✅ Connected! Sending AUTH...');
+        log('info', 'Connection', '✅ Connected! Awaiting AUTH_CHALLENGE...');
         reconnectAttempt = 0;
-        sendAuth();
     });
 
     socket.on('message', (data: Buffer) => {
         const raw = data.toString();
-        const message = parseMessage(raw);
-        if (!message) {
-            log('warn', 'Protocol', '⚠️ Invalid message format');
+        const result = parseMessage(raw);
+        if (!result.success) {
+            log('warn', 'Protocol', `⚠️ Rejected message: ${result.error.message}`);
             return;
         }
-        handleMessage(message);
+        handleMessage(result.message);
     });
 
     socket.on('close', () => {
         log('warn', 'Connection', '❌ Disconnected from Control Plane');
         cleanup();
-        scheduleReconnect();
+        if (!reconnectDisabled) scheduleReconnect();
     });
 
     socket.on('error', (err) => {
@@ -93,16 +128,36 @@ export function connect(): void {
 
 function handleMessage(message: TerminusMessage): void {
     switch (message.type) {
+        case 'AUTH_CHALLENGE':
+            sendAuth(message).catch(err => log('error', 'Auth', `Failed to send AUTH: ${err.message}`));
+            break;
         case 'AUTH_ACK':
-            handleAuthAck(message as AuthAckMessage);
+            handleAuthAck(message);
             break;
         case 'HEARTBEAT_ACK':
             break;
         case 'JOB_ASSIGN':
-            handleJobAssign(message as JobAssignMessage);
+            handleJobAssign(message);
+            break;
+        case 'AGENT_JOB':
+            handleAgentJob(message);
+            break;
+        case 'JOB_CANCEL':
+            handleJobCancel(message);
+            break;
+        case 'RESULT_ACK':
+            ackResult(message.payload.runId);
+            break;
+        case 'ARTIFACT':
+            handleArtifact(message);
             break;
         case 'ERROR':
             log('error', 'Server', `Error: ${message.payload.code} - ${message.payload.message}`);
+            if (message.payload.code === 'UNSUPPORTED_PROTOCOL_VERSION') {
+                // Retrying with the same build can never succeed
+                log('error', 'Protocol', `⛔ This node speaks protocol ${PROTOCOL_VERSION}; upgrade required. Not reconnecting.`);
+                reconnectDisabled = true;
+            }
             if (message.payload.fatal) cleanup();
             break;
         default:
@@ -114,7 +169,14 @@ function handleAuthAck(message: AuthAckMessage): void {
     if (message.payload.success) {
         log('info', 'Auth', `🎉 Authenticated as ${COLORS.magenta}${nodeId}${COLORS.reset}`);
         isAuthenticated = true;
+        sessionFeatures = message.payload.features ?? [];
+        sessionToken = message.payload.sessionToken;
+        log('info', 'Protocol', `🤝 Protocol ${message.payload.protocolVersion ?? 'unknown'} (features: [${sessionFeatures.join(', ')}])`);
+        if (message.payload.resumed) {
+            log('info', 'Session', '▶️ Resumed previous session');
+        }
         startHeartbeat(message.payload.heartbeatInterval ?? config.timing.heartbeatInterval);
+        replayOutbox();
     } else {
         log('error', 'Auth', `❌ Auth failed: ${message.payload.message}`);
         socket?.close();
@@ -125,16 +187,29 @@ function handleAuthAck(message: AuthAckMessage): void {
 // Send Messages
 // -----------------------------------------------------------------------------
 
-function sendAuth(): void {
+async function sendAuth(challenge: AuthChallengeMessage): Promise<void> {
+    // Wallet nodes prove their identity by signing the nonce; others fall back to the shared secret
+    const walletSignature = wallet
+        ? await wallet.signMessage(createWalletAuthMessage(nodeId, challenge.payload.nonce))
+        : undefined;
+
     const message: AuthMessage = {
         ...createBaseMessage('AUTH'),
         type: 'AUTH',
         payload: {
             nodeId,
             capabilities,
+            agentTypes,
+            wallet: wallet?.address,
+            walletSignature,
             specs,
-            secret: config.auth.nodeSecret,
-            version: '0.1.0',
+            secret: wallet ? undefined : config.auth.nodeSecret,
+            version: NODE_VERSION,
+            protocolVersion: PROTOCOL_VERSION,
+            features: featuresForVersion(PROTOCOL_VERSION),
+            sessionToken,
+            maxConcurrentJobs,
+            tools: toolManifests,
         },
     };
     socket?.send(serializeMessage(message));
@@ -181,9 +256,10 @@ function scheduleReconnect(): void {
 }
 
 export function cleanup(): void {
+    // Running jobs keep going (and keep their status) so results can be replayed after a resume
     isAuthenticated = false;
-    currentStatus = 'IDLE';
-    activeJobs = 0;
+    sessionFeatures = [];
+    failArtifactFetches('Disconnected from the control plane');
     if (heartbeatInterval) {
         clearInterval(heartbeatInterval);
         heartbeatInterval = null;
@@ -0,0 +1,180 @@
+// =============================================================================
+// TERMINUS AGENT NODE - Container Runner
+// =============================================================================
+// Runs container runtime jobs with Docker, for work that needs native
+// dependencies the JS sandbox can't provide. The job's image gets:
+//   /input/input.json, /input/memory.json  read-only job input and agent memory
+//   /scratch                               the job's scratch directory
+// and reports back by writing /scratch/output.json (the job output) and
+// optionally /scratch/memory.json (updated memory); files in /scratch/artifacts
+// are returned as artifacts. stdout/stderr stream into
+// the job logs. CPU, memory and network are limited by the job spec within the
+// node's maximums, and the container is removed on exit, timeout or cancel.
+// Disk is bounded too: /tmp is a tmpfs of NODE_CONTAINER_TMPFS_MB, no single
+// file may exceed the scratch quota, and /scratch as a whole is held to the
+// quota while the job runs (see watchScratchQuota in scratch.ts).
+// =============================================================================
+
+import { spawn, execFile } from 'child_process';
+import { createInterface } from 'readline';
+import { closeSync, constants, fstatSync, mkdirSync, mkdtempSync, openSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { basename, join } from 'path';
+import { randomUUID } from 'crypto';
+import os from 'os';
+import type { ContainerSpec } from '@terminus/protocol';
+import { SCRATCH_QUOTA_BYTES } from './scratch.js';
+import { cancelledOutput, errorOutput, timeoutOutput, type RunnerInput, type RunnerOutput } from './runner.js';
+
+const DEFAULT_TIMEOUT = 2000;
+const MAX_MEMORY_MB = parseInt(process.env.NODE_CONTAINER_MEMORY_MB ?? '1024', 10);
+const MAX_CPUS = parseFloat(process.env.NODE_CONTAINER_CPUS ?? '1');
+const ALLOW_NETWORK = process.env.NODE_CONTAINER_NETWORK === 'bridge';
+const PULL_POLICY = process.env.NODE_CONTAINER_PULL === 'missing' ? 'missing' : 'never';
+const TMPFS_MB = parseInt(process.env.NODE_CONTAINER_TMPFS_MB ?? '64', 10);
+const PIDS_LIMIT = 256;
+const MAX_RESULT_FILE_BYTES = 1024 * 1024;   // output.json and memory.json each
+
+function dockerArgs(name: string, spec: ContainerSpec, jobDir: string, scratchDir: string): string[] {
+    const memoryMb = Math.min(spec.memoryMb ?? MAX_MEMORY_MB, MAX_MEMORY_MB);
+    const cpus = Math.min(spec.cpus ?? MAX_CPUS, MAX_CPUS);
+    // Run as the node user so the scratch directory stays writable and removable
+    const user = process.getuid && process.getgid ? ['--user', `${process.getuid()}:${process.getgid()}`] : [];
+
+    return [
+        'run', '--rm', '--name', name,
+        `--pull=${PULL_POLICY}`,
+        '--network', spec.network ? 'bridge' : 'none',
+        '--memory', `${memoryMb}m`, '--memory-swap', `${memoryMb}m`,
+        '--cpus', String(cpus),
+        '--pids-limit', String(PIDS_LIMIT),
+        '--read-only', '--tmpfs', `/tmp:rw,noexec,nosuid,nodev,size=${TMPFS_MB}m`,
+        '--ulimit', `fsize=${SCRATCH_QUOTA_BYTES}`,
+        '--cap-drop', 'ALL', '--security-opt', 'no-new-privileges',
+        ...user,
+        '-v', `${join(jobDir, 'input')}:/input:ro`,
+        '-v', `${scratchDir}:/scratch`,
+        '-w', '/scratch',
+        spec.image,
+        ...(spec.command ?? []),
+    ];
+}
+
+/**
+ * Read a result file the container left in /scratch, or undefined if there is none.
+ * The container controls /scratch, so the file must be a regular file (never a
+ * symlink into the node's filesystem, or a FIFO that blocks the read) of bounded size.
+ */
+export function readJson(file: string): unknown {
+    let fd: number;
+    try {
+        fd = openSync(file, constants.O_RDONLY | constants.O_NOFOLLOW | constants.O_NONBLOCK);
+    } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code === 'ENOENT') return undefined;
+        if (code === 'ELOOP') throw new Error(`${basename(file)} is a symlink`);
+        throw error;
+    }
+    try {
+        const stats = fstatSync(fd);
+        if (!stats.isFile()) throw new Error(`${basename(file)} is not a regular file`);
+        if (stats.size > MAX_RESULT_FILE_BYTES) throw new Error(`${basename(file)} exceeds ${MAX_RESULT_FILE_BYTES} bytes`);
+        return JSON.parse(readFileSync(fd, 'utf-8'));
+    } finally {
+        closeSync(fd);
+    }
+}
+
+export async function runContainerAgent(runnerInput: RunnerInput): Promise<RunnerOutput> {
+    const { jobId, input, timeout = DEFAULT_TIMEOUT, context = {}, container, signal, onLog } = runnerInput;
+    const logs: string[] = [];
+    const capture = (line: string) => {
+        logs.push(line);
+        onLog?.(line);
+    };
+    const startTime = Date.now();
+
+    if (signal?.aborted) {
+        return cancelledOutput(logs, startTime, signal.reason);
+    }
+    if (!container) {
+        return errorOutput(logs, startTime, 'NO_CONTAINER', 'Container jobs need a container spec');
+    }
+    if (container.network && !ALLOW_NETWORK) {
+        return errorOutput(logs, startTime, 'NETWORK_NOT_ALLOWED', 'This node does not allow network access from containers');
+    }
+
+    const jobDir = mkdtempSync(join(os.tmpdir(), 'terminus-job-'));
+    mkdirSync(join(jobDir, 'input'));
+    const scratchDir = runnerInput.scratchDir ?? join(jobDir, 'scratch');
+    mkdirSync(scratchDir, { recursive: true });
+    writeFileSync(join(jobDir, 'input', 'input.json'), JSON.stringify(input ?? null));
+    writeFileSync(join(jobDir, 'input', 'memory.json'), JSON.stringify(context));
+
+    const name = `terminus-${jobId}-${randomUUID().slice(0, 8)}`;
+    capture(`[SYSTEM] Running ${container.image}`);
+
+    return new Promise(resolve => {
+        const child = spawn('docker', dockerArgs(name, container, jobDir, scratchDir), { stdio: ['ignore', 'pipe', 'pipe'] });
+
+        let settled = false;
+        const finish = (outcome: () => RunnerOutput) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(killTimer);
+            signal?.removeEventListener('abort', onAbort);
+            const output = outcome();
+            // Killing the CLI doesn't stop the container; remove it (a no-op once it has exited)
+            child.kill('SIGKILL');
+            execFile('docker', ['rm', '-f', name], () => rmSync(jobDir, { recursive: true, force: true }));
+            resolve(output);
+        };
+
+        const killTimer = setTimeout(() => finish(() => timeoutOutput(logs, startTime, timeout)), timeout);
+
+        const onAbort = () => finish(() => cancelledOutput(logs, startTime, signal?.reason));
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        createInterface({ input: child.stdout }).on('line', line => {
+            if (!settled) capture(line);
+        });
+        createInterface({ input: child.stderr }).on('line', line => {
+            if (!settled) capture(`[ERROR] ${line}`);
+        });
+
+        child.on('error', err => {
+            finish(() => errorOutput(logs, startTime, 'RUNTIME_UNAVAILABLE', `Failed to start docker: ${err.message}`));
+        });
+
+        child.on('close', code => {
+            if (code !== 0) {
+                // 125-127 are docker's own failures (bad image, daemon errors), not the job's
+                const errorCode = code !== null && code >= 125 && code <= 127 ? 'CONTAINER_FAILED' : 'EXECUTION_ERROR';
+                finish(() => errorOutput(logs, startTime, errorCode, `Container exited with code ${code}`));
+                return;
+            }
+
+            finish(() => {
+                let output: unknown;
+                let memory: Record<string, unknown> | undefined;
+                try {
+                    output = readJson(join(scratchDir, 'output.json'));
+                    const saved = readJson(join(scratchDir, 'memory.json'));
+                    if (saved !== undefined && (typeof saved !== 'object' || saved === null || Array.isArray(saved))) {
+                        throw new Error('memory.json must hold an object');
+                    }
+                    memory = saved as Record<string, unknown> | undefined;
+                } catch (error) {
+                    return errorOutput(logs, startTime, 'INVALID_OUTPUT', `Unreadable container output: ${(error as Error).message}`);
+                }
+                const endTime = Date.now();
+                return {
+                    status: 'SUCCESS',
+                    output,
+                    logs,
+                    memory,
+                    metrics: { startTime, endTime, durationMs: endTime - startTime },
+                };
+            });
+        });
+    });
+}
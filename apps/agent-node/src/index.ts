@@ -7,9 +7,12 @@
 
 import { randomUUID } from 'crypto';
 import { log, COLORS } from './logger.js';
-import { connect, cleanup, closeSocket, setNodeInfo } from './connection.js';
-import { discoverCapabilities } from './capabilities.js';
-import { getAvailableTools } from './tools.js';
+import { connect, cleanup, closeSocket, setNodeInfo, setAgentInfo } from './connection.js';
+import { discoverCapabilities, deriveMaxConcurrentJobs } from './capabilities.js';
+import { loadTools } from './plugins.js';
+import { loadHostedAgents, getConfiguredAgentTypes } from './agents.js';
+import { isLlmConfigured } from './llm.js';
+import { loadNodeWallet } from './keystore.js';
 
 // -----------------------------------------------------------------------------
 // Startup
@@ -22,18 +25,42 @@ async function main() {
     log('info', 'Discovery', '🔍 Discovering capabilities...');
     const { capabilities, specs } = await discoverCapabilities();
 
-    // Add tool capabilities
-    const toolCaps = getAvailableTools().map(t => `tool:${t}`);
+    // Built-in and plugin tools, advertised as tool:* capabilities
+    const tools = await loadTools(capabilities);
+    const toolCaps = tools.map(t => `tool:${t.name}`);
     const allCapabilities = [...capabilities, ...toolCaps];
 
     const NODE_ID = process.env.NODE_ID ?? `node-${randomUUID().slice(0, 8)}`;
 
+    const maxConcurrentJobs = deriveMaxConcurrentJobs(specs);
+
     // Initialize node info
-    setNodeInfo(NODE_ID, allCapabilities, specs);
+    setNodeInfo(NODE_ID, allCapabilities, specs, maxConcurrentJobs, tools);
 
     log('info', 'Node', `📛 Node ID: ${COLORS.magenta}${NODE_ID}${COLORS.reset}`);
     log('info', 'Node', `📦 Capabilities: [${allCapabilities.slice(0, 5).join(', ')}...]`);
-    log('info', 'Node', `💻 Specs: ${specs.cpuCores} cores, ${specs.totalMemoryGB}GB RAM`);
+    log('info', 'Tools', `🔧 Tools: [${tools.map(t => t.name).join(', ')}]`);
+    log('info', 'Node', `💻 Specs: ${specs.cpuCores} cores, ${specs.totalMemoryGB}GB RAM (up to ${maxConcurrentJobs} concurrent jobs)`);
+
+    // Load agents this node can run for AGENT_JOB requests
+    const hostedAgents = loadHostedAgents();
+    log('info', 'Agents', `🤖 Hosted agents: [${hostedAgents.map(a => a.id).join(', ')}]`);
+
+    // Only advertise agents we can actually run, so the control plane never routes to us in vain
+    let agentTypes = getConfiguredAgentTypes();
+    if (!isLlmConfigured() && agentTypes.length > 0) {
+        log('warn', 'Agents', '⚠️ No LLM API key configured (LLM_API_KEY); not advertising agents');
+        agentTypes = [];
+    }
+
+    // Wallet for payouts and AUTH signatures
+    const wallet = await loadNodeWallet();
+    if (!wallet) {
+        log('warn', 'Keystore', '⚠️ No NODE_KEYSTORE_PASSWORD set; running without a wallet (no payouts, shared-secret auth only)');
+    }
+
+    setAgentInfo(agentTypes, wallet);
+    log('info', 'Agents', `📣 Advertising agents: [${agentTypes.join(', ')}]`);
 
     connect();
 }
@@ -3,39 +3,202 @@
 // =============================================================================
 
 import {
+    type AgentJobMessage,
+    type JobRuntime,
+    type AgentJobResultMessage,
     type JobAssignMessage,
+    type JobCancelMessage,
     type JobResultMessage,
-    serializeMessage,
     createBaseMessage,
 } from '@terminus/protocol';
-import { runAgent } from './runner.js';
+import { runAgent, cancelledOutput, errorOutput, type RunnerInput, type RunnerOutput } from './runner.js';
+import { runPythonAgent } from './python-runner.js';
+import { runContainerAgent } from './container-runner.js';
+import { runWasmAgent } from './wasm-runner.js';
 import { executeTool } from './tools.js';
+import { getArtifact } from './artifacts.js';
+import { SCRATCH_QUOTA_BYTES, collectArtifacts, createScratch, removeScratch, scratchUsage, watchScratchQuota, type ScratchArtifact } from './scratch.js';
 import { log, COLORS } from './logger.js';
-import { getSocket, setStatus } from './connection.js';
+import { createProgressEmitter } from './progress.js';
+import { runAgentJob, cancelledOutcome } from './agent-runner.js';
+import { setStatus, maxConcurrentJobs, hasFeature } from './connection.js';
+import { sendResult } from './outbox.js';
 
 let _activeJobs = 0;
 
-export async function handleJobAssign(message: JobAssignMessage): Promise<void> {
-    const { jobId, runId, agentId, input, timeout } = message.payload;
-    const context = (message.payload as any).context;
-    const script = (message.payload as any).script;
-    const toolCall = (message.payload as any).toolCall;
+const RUNNERS: Record<JobRuntime, (input: RunnerInput) => Promise<RunnerOutput>> = {
+    javascript: runAgent,
+    python: runPythonAgent,
+    container: runContainerAgent,
+    wasm: runWasmAgent,
+};
 
-    log('info', 'Job', `📥 Received job ${COLORS.blue}${jobId}${COLORS.reset}`);
+// In-flight attempts (running or waiting for a slot), keyed by runId: retries of a
+// job reuse its jobId. Agent jobs use their jobId as the runId.
+const runningJobs = new Map<string, { jobId: string; controller: AbortController }>();
+
+// Jobs waiting for a free slot, in arrival order
+const slotWaiters: Array<() => void> = [];
 
+// -----------------------------------------------------------------------------
+// Job Slots
+// -----------------------------------------------------------------------------
+
+function takeSlot(): void {
     _activeJobs++;
     setStatus('BUSY', _activeJobs);
+}
+
+/**
+ * Wait for one of the maxConcurrentJobs slots. Resolves false without a slot if the
+ * job is cancelled while waiting; the handler then reports it as cancelled.
+ */
+function acquireSlot(jobId: string, signal: AbortSignal): Promise<boolean> {
+    if (_activeJobs < maxConcurrentJobs) {
+        takeSlot();
+        return Promise.resolve(true);
+    }
+
+    log('info', 'Job', `⏸️ ${jobId} waiting for a slot (${_activeJobs}/${maxConcurrentJobs} busy, ${slotWaiters.length} ahead)`);
+    return new Promise(resolve => {
+        const onAbort = () => {
+            slotWaiters.splice(slotWaiters.indexOf(waiter), 1);
+            resolve(false);
+        };
+        const waiter = () => {
+            signal.removeEventListener('abort', onAbort);
+            takeSlot();
+            resolve(true);
+        };
+        slotWaiters.push(waiter);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+function releaseSlot(): void {
+    _activeJobs--;
+
+    const next = slotWaiters.shift();
+    if (next) {
+        next();
+    } else if (_activeJobs === 0) {
+        setStatus('IDLE', 0);
+    }
+}
+
+/**
+ * Forget an attempt, unless its entry already belongs to a newer one.
+ */
+function endAttempt(runId: string, controller: AbortController): void {
+    if (runningJobs.get(runId)?.controller === controller) {
+        runningJobs.delete(runId);
+    }
+}
+
+/**
+ * Resolve with the task's result, or with null as soon as the signal aborts.
+ */
+function untilAborted<T>(task: Promise<T>, signal: AbortSignal): Promise<T | null> {
+    if (signal.aborted) return Promise.resolve(null);
+    return new Promise((resolve, reject) => {
+        const onAbort = () => resolve(null);
+        signal.addEventListener('abort', onAbort, { once: true });
+        task.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/**
+ * Fetch a script sent by hash. Returns the code, or the job's result if it
+ * can't be had or the job is cancelled while waiting for it.
+ */
+async function loadScript(hash: string, signal: AbortSignal, startTime: number): Promise<string | RunnerOutput> {
+    try {
+        const bytes = await untilAborted(getArtifact(hash), signal);
+        if (bytes === null) return cancelledOutput([], startTime, signal.reason);
+        return Buffer.from(bytes).toString('utf-8');
+    } catch (error) {
+        return errorOutput([], startTime, 'ARTIFACT_UNAVAILABLE', `Can't load agent script: ${(error as Error).message}`);
+    }
+}
+
+function quotaExceededOutput(logs: string[], startTime: number, usage: number): RunnerOutput {
+    return errorOutput(logs, startTime, 'SCRATCH_QUOTA_EXCEEDED', `Used ${usage} bytes of scratch space (quota ${SCRATCH_QUOTA_BYTES})`);
+}
+
+/**
+ * Run a job with its scratch directory, killing it (through its signal) as soon
+ * as it goes over the scratch quota.
+ */
+async function runWithScratch(runtime: JobRuntime, runnerInput: RunnerInput, scratchDir: string): Promise<RunnerOutput> {
+    const quota = new AbortController();
+    let exceededUsage: number | undefined;
+    const stopWatching = watchScratchQuota(scratchDir, usage => {
+        exceededUsage = usage;
+        quota.abort('scratch quota exceeded');
+    });
+    try {
+        const signal = runnerInput.signal ? AbortSignal.any([runnerInput.signal, quota.signal]) : quota.signal;
+        const result = await RUNNERS[runtime]({ ...runnerInput, scratchDir, signal });
+        if (exceededUsage !== undefined && result.status === 'CANCELLED') {
+            return quotaExceededOutput(result.logs, result.metrics.startTime, exceededUsage);
+        }
+        return result;
+    } finally {
+        stopWatching();
+    }
+}
+
+/**
+ * Check a successful job's scratch usage and attach the files it left in
+ * artifacts/. Going over the quota fails the job.
+ */
+function withArtifacts(result: RunnerOutput, scratchDir: string): RunnerOutput {
+    const { logs, metrics: { startTime } } = result;
+    const usage = scratchUsage(scratchDir);
+    if (usage > SCRATCH_QUOTA_BYTES) {
+        return quotaExceededOutput(logs, startTime, usage);
+    }
+
+    let artifacts: ScratchArtifact[];
+    try {
+        artifacts = collectArtifacts(scratchDir, (name, reason) => logs.push(`[SYSTEM] Skipped artifact ${name}: ${reason}`));
+    } catch (error) {
+        return errorOutput(logs, startTime, 'INVALID_OUTPUT', `Unreadable artifacts: ${(error as Error).message}`);
+    }
+    if (artifacts.length === 0) return result;
+
+    // Older control planes would reject the result outright
+    if (!hasFeature('job-artifacts')) {
+        logs.push(`[SYSTEM] Control plane does not accept artifacts; dropped ${artifacts.length} file(s)`);
+        return result;
+    }
+    result.artifacts = artifacts.map(({ name, contentType, content }) => ({ name, contentType, content: content.toString('base64') }));
+    return result;
+}
+
+export async function handleJobAssign(message: JobAssignMessage): Promise<void> {
+    const { jobId, runId, agentId, input, timeout, context, script, scriptHash, runtime = 'javascript', container, wasm, toolCall, tools } = message.payload;
+
+    log('info', 'Job', `📥 Received job ${COLORS.blue}${jobId}${COLORS.reset}`);
+
+    const controller = new AbortController();
+    runningJobs.set(runId, { jobId, controller });
+    const hasSlot = await acquireSlot(jobId, controller.signal);
 
     const startTime = Date.now();
+    const progress = createProgressEmitter(jobId, runId, message.traceId);
 
     try {
         let result: any;
 
-        // Check if this is a direct tool call
-        if (toolCall && toolCall.tool) {
+        // Cancelled while waiting for a slot: report it without running anything
+        if (!hasSlot) {
+            result = cancelledOutput([], startTime, controller.signal.reason);
+        } else if (toolCall) {
             log('info', 'Job', `🔧 Executing tool: ${toolCall.tool}`);
-            const toolResult = await executeTool(toolCall.tool, toolCall.params);
-            result = {
+            progress.emit('TOOL_CALL', { tool: toolCall.tool, params: toolCall.params });
+            const toolResult = await untilAborted(executeTool(toolCall.tool, toolCall.params), controller.signal);
+            result = toolResult === null ? cancelledOutput([], startTime, controller.signal.reason) : {
                 status: toolResult.success ? 'SUCCESS' : 'ERROR',
                 output: toolResult.output,
                 logs: [`[Tool] ${toolCall.tool}(${JSON.stringify(toolCall.params)})`],
@@ -47,9 +210,29 @@ export async function handleJobAssign(message: JobAssignMessage): Promise<void>
                 },
             };
         } else {
-            // Run in sandbox
-            log('info', 'Runner', `⚡ Executing in sandbox...`);
-            result = await runAgent({ jobId, runId, agentId, input, timeout, context, script });
+            const code = scriptHash && script === undefined
+                ? await loadScript(scriptHash, controller.signal, startTime)
+                : script;
+            if (typeof code === 'object') {
+                result = code;
+            } else {
+                // Run in sandbox, with a scratch directory of its own
+                log('info', 'Runner', `⚡ Executing ${runtime} in sandbox...`);
+                const scratchDir = createScratch(runId);
+                try {
+                    result = await runWithScratch(runtime, {
+                        jobId, runId, agentId, input, timeout, context, script: code, tools, container, wasm,
+                        signal: controller.signal,
+                        onLog: line => progress.emit('LOG', line),
+                        onToolCall: (tool, params) => progress.emit('TOOL_CALL', { tool, params }),
+                    }, scratchDir);
+                    if (result.status === 'SUCCESS') {
+                        result = withArtifacts(result, scratchDir);
+                    }
+                } finally {
+                    removeScratch(scratchDir);
+                }
+            }
         }
 
         // Log captured output
@@ -67,18 +250,16 @@ export async function handleJobAssign(message: JobAssignMessage): Promise<void>
                 status: result.status,
                 output: result.output,
                 logs: result.logs || [],
+                memory: result.memory,
+                artifacts: result.artifacts,
                 error: result.error,
                 metrics: result.metrics,
             },
         };
 
-        if (result.memory) {
-            (resultMessage.payload as any).memory = result.memory;
-        }
-
-        getSocket()?.send(serializeMessage(resultMessage));
+        sendResult(resultMessage);
 
-        const emoji = result.status === 'SUCCESS' ? '✅' : '❌';
+        const emoji = result.status === 'SUCCESS' ? '✅' : result.status === 'CANCELLED' ? '🛑' : '❌';
         log('info', 'Job', `${emoji} ${jobId}: ${result.status} (${result.metrics.durationMs}ms)`);
 
     } catch (error) {
@@ -98,9 +279,58 @@ export async function handleJobAssign(message: JobAssignMessage): Promise<void>
             },
         };
 
-        getSocket()?.send(serializeMessage(errorResult));
+        sendResult(errorResult);
     } finally {
-        _activeJobs--;
-        if (_activeJobs === 0) setStatus('IDLE', 0);
+        endAttempt(runId, controller);
+        if (hasSlot) releaseSlot();
     }
 }
+
+export async function handleAgentJob(message: AgentJobMessage): Promise<void> {
+    const { jobId, agentType } = message.payload;
+
+    log('info', 'Job', `📥 Received agent job ${COLORS.blue}${jobId}${COLORS.reset} (${agentType})`);
+
+    const controller = new AbortController();
+    runningJobs.set(jobId, { jobId, controller });
+    const hasSlot = await acquireSlot(jobId, controller.signal);
+    // Agent jobs have no separate run, so the jobId doubles as the runId for progress events
+    const progress = createProgressEmitter(jobId, jobId, message.traceId);
+
+    try {
+        const outcome = hasSlot
+            ? await runAgentJob(message.payload, { signal: controller.signal, progress })
+            : cancelledOutcome();
+
+        const resultMessage: AgentJobResultMessage = {
+            ...createBaseMessage('AGENT_JOB_RESULT', message.traceId),
+            type: 'AGENT_JOB_RESULT',
+            payload: { jobId, ...outcome },
+        };
+        sendResult(resultMessage);
+
+        const emoji = outcome.success ? '✅' : outcome.error?.code === 'CANCELLED' ? '🛑' : '❌';
+        const tokens = outcome.metrics?.llmTokensUsed ?? 0;
+        log('info', 'Job', `${emoji} ${jobId}: ${outcome.toolsUsed?.length ?? 0} tools, ${tokens} tokens (${outcome.metrics?.executionTimeMs}ms)`);
+    } finally {
+        endAttempt(jobId, controller);
+        if (hasSlot) releaseSlot();
+    }
+}
+
+export function handleJobCancel(message: JobCancelMessage): void {
+    const { jobId, runId, reason } = message.payload;
+
+    // Control planes without 'run-cancellation' name only the job: cancel every attempt of it
+    const attempts = Array.from(runningJobs)
+        .filter(([key, attempt]) => attempt.jobId === jobId && (runId === undefined || key === runId))
+        .map(([, attempt]) => attempt);
+
+    if (attempts.length === 0) {
+        log('warn', 'Job', `❓ Cancel for unknown job ${jobId}${runId ? ` (run ${runId})` : ''}`);
+        return;
+    }
+
+    log('info', 'Job', `🛑 Cancelling ${COLORS.blue}${jobId}${COLORS.reset} (${reason})`);
+    for (const { controller } of attempts) controller.abort(reason);
+}
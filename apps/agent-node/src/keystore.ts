@@ -0,0 +1,55 @@
+// =============================================================================
+// TERMINUS AGENT NODE - Wallet Keystore
+// =============================================================================
+// Loads (or creates) the node operator's wallet from an encrypted JSON keystore.
+// The wallet receives payouts and is the node's identity key: it signs the
+// AUTH_CHALLENGE nonce to authenticate.
+// =============================================================================
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import os from 'os';
+import { Wallet, type HDNodeWallet } from 'ethers';
+import { log } from './logger.js';
+
+export interface NodeWallet {
+    address: string;
+    signMessage(message: string): Promise<string>;
+}
+
+const DEFAULT_KEYSTORE_PATH = join(os.homedir(), '.terminus', 'keystore.json');
+
+function getKeystorePath(): string {
+    return process.env.NODE_KEYSTORE_PATH ?? DEFAULT_KEYSTORE_PATH;
+}
+
+/**
+ * Load the node wallet.
+ * - NODE_KEYSTORE_PASSWORD unlocks the keystore at NODE_KEYSTORE_PATH (~/.terminus/keystore.json).
+ * - If the keystore doesn't exist yet it is created, importing NODE_WALLET_PRIVATE_KEY if set
+ *   or generating a fresh key otherwise.
+ * Returns null when no password is configured (node runs without a wallet).
+ */
+export async function loadNodeWallet(): Promise<NodeWallet | null> {
+    const password = process.env.NODE_KEYSTORE_PASSWORD;
+    if (!password) {
+        return null;
+    }
+
+    const path = getKeystorePath();
+
+    if (existsSync(path)) {
+        const wallet = await Wallet.fromEncryptedJson(readFileSync(path, 'utf-8'), password);
+        log('info', 'Keystore', `🔓 Unlocked wallet ${wallet.address.slice(0, 10)}... from ${path}`);
+        return wallet;
+    }
+
+    const importKey = process.env.NODE_WALLET_PRIVATE_KEY;
+    const wallet: Wallet | HDNodeWallet = importKey ? new Wallet(importKey) : Wallet.createRandom();
+
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, await wallet.encrypt(password), { encoding: 'utf-8', mode: 0o600 });
+    log('info', 'Keystore', `🔐 ${importKey ? 'Imported' : 'Created'} wallet ${wallet.address.slice(0, 10)}... → ${path}`);
+
+    return wallet;
+}
@@ -0,0 +1,103 @@
+// =============================================================================
+// TERMINUS AGENT NODE - LLM Provider
+// =============================================================================
+// Minimal client for an OpenAI-compatible chat completions API (xAI by default),
+// configured by the node operator. Streams tokens as they arrive.
+// =============================================================================
+
+export interface LlmConfig {
+    apiKey: string;
+    baseUrl: string;
+    model: string;
+}
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface ChatOptions {
+    messages: ChatMessage[];
+    signal?: AbortSignal;
+    onToken?: (token: string) => void;
+}
+
+export interface ChatResult {
+    text: string;
+    tokensUsed: number;
+}
+
+export function getLlmConfig(): LlmConfig {
+    return {
+        apiKey: process.env.LLM_API_KEY ?? process.env.XAI_API_KEY ?? '',
+        baseUrl: (process.env.LLM_BASE_URL ?? 'https://api.x.ai/v1').replace(/\/$/, ''),
+        model: process.env.LLM_MODEL ?? 'grok-4-1-fast-non-reasoning',
+    };
+}
+
+export function isLlmConfigured(): boolean {
+    return getLlmConfig().apiKey !== '';
+}
+
+/**
+ * Run a chat completion, streaming tokens to onToken.
+ */
+export async function chat(options: ChatOptions): Promise<ChatResult> {
+    const { apiKey, baseUrl, model } = getLlmConfig();
+    if (!apiKey) {
+        throw new Error('No LLM API key configured (set LLM_API_KEY)');
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+            model,
+            messages: options.messages,
+            stream: true,
+            stream_options: { include_usage: true },
+        }),
+        signal: options.signal,
+    });
+
+    if (!response.ok || !response.body) {
+        const body = await response.text().catch(() => '');
+        throw new Error(`LLM request failed: ${response.status} ${body.slice(0, 200)}`);
+    }
+
+    let text = '';
+    let tokensUsed = 0;
+    let buffer = '';
+    const decoder = new TextDecoder();
+
+    for await (const chunk of response.body) {
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+            if (!line.startsWith('data:')) continue;
+            const data = line.slice(5).trim();
+            if (data === '[DONE]') continue;
+
+            try {
+                const parsed = JSON.parse(data);
+                const token: string | undefined = parsed.choices?.[0]?.delta?.content;
+                if (token) {
+                    text += token;
+                    options.onToken?.(token);
+                }
+                if (parsed.usage?.total_tokens) {
+                    tokensUsed = parsed.usage.total_tokens;
+                }
+            } catch {
+                // Ignore keep-alives and partial lines
+            }
+        }
+    }
+
+    return { text, tokensUsed };
+}
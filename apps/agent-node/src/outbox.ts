@@ -0,0 +1,79 @@
+// =============================================================================
+// TERMINUS AGENT NODE - Result Outbox
+// =============================================================================
+// Holds job results until the control plane acknowledges them (RESULT_ACK).
+// Results finished while disconnected are replayed after the session resumes.
+// No-op buffering unless the session negotiated the 'session-resume' feature.
+// =============================================================================
+
+import WebSocket from 'ws';
+import {
+    type JobResultMessage,
+    type AgentJobResultMessage,
+    serializeMessage,
+} from '@terminus/protocol';
+import { getSocket, hasFeature, isConnected } from './connection.js';
+import { log } from './logger.js';
+
+type ResultMessage = JobResultMessage | AgentJobResultMessage;
+
+// Keyed by runId (agent jobs use their jobId as the runId)
+const outbox = new Map<string, ResultMessage>();
+
+const MAX_OUTBOX_SIZE = 500;
+
+function runIdOf(message: ResultMessage): string {
+    return message.type === 'JOB_RESULT' ? message.payload.runId : message.payload.jobId;
+}
+
+function trySend(message: ResultMessage): boolean {
+    const socket = getSocket();
+    if (!isConnected() || !socket || socket.readyState !== WebSocket.OPEN) return false;
+
+    socket.send(serializeMessage(message));
+    return true;
+}
+
+/**
+ * Send a job result, keeping it until acknowledged so it survives a reconnect.
+ */
+export function sendResult(message: ResultMessage): void {
+    const sent = trySend(message);
+
+    // Older control planes never ack, so only buffer when acks are guaranteed
+    if (sent && !hasFeature('session-resume')) return;
+
+    if (outbox.size >= MAX_OUTBOX_SIZE) {
+        const oldest = outbox.keys().next().value;
+        if (oldest !== undefined) {
+            outbox.delete(oldest);
+            log('warn', 'Outbox', `⚠️ Outbox full, dropped result for ${oldest}`);
+        }
+    }
+    outbox.set(runIdOf(message), message);
+
+    if (!sent) {
+        log('warn', 'Outbox', `📮 Disconnected; holding result for ${runIdOf(message)}`);
+    }
+}
+
+export function ackResult(runId: string): void {
+    outbox.delete(runId);
+}
+
+/**
+ * Re-send every unacknowledged result (after AUTH_ACK on a new connection).
+ */
+export function replayOutbox(): void {
+    if (outbox.size === 0) return;
+
+    log('info', 'Outbox', `📤 Replaying ${outbox.size} unacknowledged result(s)`);
+    for (const message of outbox.values()) {
+        if (!trySend(message)) break;
+    }
+
+    // Without resume support nothing will ack these, so don't hold them forever
+    if (!hasFeature('session-resume')) {
+        outbox.clear();
+    }
+}
@@ -0,0 +1,114 @@
+// =============================================================================
+// TERMINUS AGENT NODE - Tool Plugins
+// =============================================================================
+// Registers the tools this node offers: the built-ins plus operator plugins from
+// NODE_PLUGINS_DIR (~/.terminus/plugins). A plugin is a .js/.mjs module exporting
+// `manifest` (ToolManifest) and `execute(params)`, either as named exports or on
+// its default export. Plugins run in the node process, so only install ones you
+// trust; NODE_TOOL_PERMISSIONS limits what any tool may declare it needs.
+// =============================================================================
+
+import { existsSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import os from 'os';
+import { ToolManifestSchema, compileToolParams, type ToolManifest, type ToolPermission } from '@terminus/protocol';
+import { BUILTIN_TOOLS, registerTool, hasTool, getToolManifests, type ToolDefinition } from './tools.js';
+import { log } from './logger.js';
+
+const DEFAULT_PLUGINS_DIR = join(os.homedir(), '.terminus', 'plugins');
+const DEFAULT_PERMISSIONS = 'network';   // shell must be granted explicitly
+
+function getPluginsDir(): string {
+    return process.env.NODE_PLUGINS_DIR ?? DEFAULT_PLUGINS_DIR;
+}
+
+function getGrantedPermissions(): ToolPermission[] {
+    return (process.env.NODE_TOOL_PERMISSIONS ?? DEFAULT_PERMISSIONS)
+        .split(',')
+        .map(p => p.trim())
+        .filter(Boolean) as ToolPermission[];
+}
+
+/**
+ * Why a tool can't be offered on this node, or null if it can.
+ */
+function checkTool(manifest: ToolManifest, capabilities: string[], granted: ToolPermission[]): string | null {
+    try {
+        compileToolParams(manifest);
+    } catch (error) {
+        return `unsupported parameters schema (${(error as Error).message})`;
+    }
+
+    const missing = (manifest.requiredCapabilities ?? []).filter(c => !capabilities.includes(c));
+    if (missing.length > 0) return `missing capabilities [${missing.join(', ')}]`;
+
+    const denied = (manifest.permissions ?? []).filter(p => !granted.includes(p));
+    if (denied.length > 0) return `permissions not granted [${denied.join(', ')}]`;
+
+    return null;
+}
+
+async function importPlugin(file: string): Promise<ToolDefinition> {
+    const mod = await import(pathToFileURL(file).href);
+    const exported = mod.default ?? mod;
+
+    const manifest = ToolManifestSchema.safeParse(exported.manifest);
+    if (!manifest.success) {
+        throw new Error(`invalid manifest: ${manifest.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ')}`);
+    }
+    if (typeof exported.execute !== 'function') {
+        throw new Error('missing execute(params) export');
+    }
+
+    return { manifest: manifest.data, execute: exported.execute };
+}
+
+function listPluginFiles(dir: string): string[] {
+    if (!existsSync(dir)) return [];
+    return readdirSync(dir)
+        .filter(f => f.endsWith('.js') || f.endsWith('.mjs'))
+        .sort()
+        .map(f => join(dir, f));
+}
+
+/**
+ * Register the built-in tools and plugins this node can run. Tools whose
+ * capabilities or permissions aren't available are skipped with a warning,
+ * as are plugins that fail to load or reuse a registered name.
+ */
+export async function loadTools(capabilities: string[]): Promise<ToolManifest[]> {
+    const granted = getGrantedPermissions();
+
+    for (const tool of BUILTIN_TOOLS) {
+        const reason = checkTool(tool.manifest, capabilities, granted);
+        if (reason) {
+            log('warn', 'Tools', `⚠️ Skipping built-in tool ${tool.manifest.name}: ${reason}`);
+            continue;
+        }
+        registerTool(tool);
+    }
+
+    const dir = getPluginsDir();
+    for (const file of listPluginFiles(dir)) {
+        let tool: ToolDefinition;
+        try {
+            tool = await importPlugin(file);
+        } catch (error) {
+            log('error', 'Tools', `❌ Failed to load plugin ${file}: ${(error as Error).message}`);
+            continue;
+        }
+
+        const { name } = tool.manifest;
+        const reason = hasTool(name) ? 'a tool with this name is already registered' : checkTool(tool.manifest, capabilities, granted);
+        if (reason) {
+            log('warn', 'Tools', `⚠️ Skipping plugin tool ${name} (${file}): ${reason}`);
+            continue;
+        }
+
+        registerTool(tool);
+        log('info', 'Tools', `🔌 Loaded plugin tool ${name}${tool.manifest.version ? ` v${tool.manifest.version}` : ''}`);
+    }
+
+    return getToolManifests();
+}
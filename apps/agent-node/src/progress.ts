@@ -0,0 +1,46 @@
+// =============================================================================
+// TERMINUS AGENT NODE - Progress Streaming
+// =============================================================================
+// Emits JOB_PROGRESS events (log lines, tool calls, LLM tokens) while a job
+// runs. No-op unless the session negotiated the 'streaming' feature.
+// =============================================================================
+
+import { randomUUID } from 'crypto';
+import {
+    type JobProgressMessage,
+    type RunEventType,
+    serializeMessage,
+    createBaseMessage,
+} from '@terminus/protocol';
+import { getSocket, hasFeature } from './connection.js';
+
+export interface ProgressEmitter {
+    emit(type: RunEventType, data: unknown): void;
+}
+
+export function createProgressEmitter(jobId: string, runId: string, traceId: string): ProgressEmitter {
+    let seq = 0;
+
+    return {
+        emit(type, data) {
+            if (!hasFeature('streaming')) return;
+
+            const message: JobProgressMessage = {
+                ...createBaseMessage('JOB_PROGRESS', traceId),
+                type: 'JOB_PROGRESS',
+                payload: {
+                    jobId,
+                    event: {
+                        runId,
+                        eventId: randomUUID(),
+                        seq: ++seq,
+                        type,
+                        timestamp: Date.now(),
+                        data,
+                    },
+                },
+            };
+            getSocket()?.send(serializeMessage(message));
+        },
+    };
+}
@@ -0,0 +1,291 @@
+// =============================================================================
+// TERMINUS AGENT NODE - Python Runner
+// =============================================================================
+// Executes python agent scripts in a subprocess with the same contract as the JS
+// sandbox: `input` and `memory` are globals, the value of the last expression is
+// the output, and printed lines are captured as logs. The interpreter runs in
+// isolated mode (-I) with an empty environment and an address-space limit, and
+// is killed on timeout or cancellation.
+//
+// Scripts are untrusted, so the interpreter runs inside bubblewrap
+// (NODE_PYTHON_SANDBOX): no network, its own pid/ipc/user namespaces, no
+// capabilities, read-only system directories and nothing else of the host but
+// the job's scratch directory, mounted at /scratch as its working directory.
+// If the sandbox can't run on this host the runtime stays off, unless the
+// operator sets NODE_PYTHON_UNSANDBOXED=true to run scripts as the node user.
+// =============================================================================
+
+import { execFile, spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { promisify } from 'util';
+import os from 'os';
+import { SCRATCH_QUOTA_BYTES } from './scratch.js';
+import { cancelledOutput, errorOutput, timeoutOutput, type RunnerInput, type RunnerOutput } from './runner.js';
+import { log } from './logger.js';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_TIMEOUT = 2000;
+const PYTHON_MEMORY_MB = parseInt(process.env.NODE_PYTHON_MEMORY_MB ?? '512', 10);
+
+// Interpreter for python agent scripts; set NODE_PYTHON_BIN empty to disable the runtime
+const PYTHON_COMMAND = process.env.NODE_PYTHON_BIN ?? 'python3';
+const SANDBOX_COMMAND = process.env.NODE_PYTHON_SANDBOX ?? 'bwrap';
+const ALLOW_UNSANDBOXED = process.env.NODE_PYTHON_UNSANDBOXED === 'true';
+
+// Host paths the sandbox sees (read-only, where they exist): the interpreter and its libraries
+const SANDBOX_READONLY_PATHS = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64', '/etc/alternatives', '/etc/ld.so.cache', '/etc/localtime'];
+
+// How scripts run on this node, decided once by detectPythonRuntime; null = runtime off
+let runtimeMode: 'sandboxed' | 'unsandboxed' | null = null;
+
+// Harness run with `python -c`. Reads the task as JSON from stdin and writes one
+// JSON message per line to stdout: any number of logs, then a result or an error.
+const HARNESS = `
+import ast, json, sys, traceback
+
+task = json.loads(sys.stdin.read())
+out = sys.stdout
+
+def send(message):
+    out.write(json.dumps(message, default=str) + "\\n")
+    out.flush()
+
+class LogStream:
+    def __init__(self, prefix):
+        self.prefix = prefix
+        self.pending = ""
+    def write(self, text):
+        *lines, self.pending = (self.pending + text).split("\\n")
+        for line in lines:
+            send({"type": "log", "line": self.prefix + line})
+        return len(text)
+    def flush(self):
+        if self.pending:
+            send({"type": "log", "line": self.prefix + self.pending})
+            self.pending = ""
+
+sys.stdout = LogStream("")
+sys.stderr = LogStream("[ERROR] ")
+
+try:
+    import resource
+    limit = task["memoryMb"] * 1024 * 1024
+    resource.setrlimit(resource.RLIMIT_AS, (limit, limit))
+except (ImportError, ValueError, OSError):
+    pass
+try:
+    import resource
+    resource.setrlimit(resource.RLIMIT_FSIZE, (task["maxFileBytes"], task["maxFileBytes"]))
+except (ImportError, ValueError, OSError):
+    pass
+
+scope = {"__name__": "__main__", "input": task.get("input"), "memory": task["memory"]}
+try:
+    tree = ast.parse(task["code"], "agent.py")
+    last = tree.body.pop() if tree.body and isinstance(tree.body[-1], ast.Expr) else None
+    exec(compile(tree, "agent.py", "exec"), scope)
+    output = eval(compile(ast.Expression(last.value), "agent.py", "eval"), scope) if last else None
+    sys.stdout.flush()
+    sys.stderr.flush()
+    send({"type": "result", "output": output, "memory": scope.get("memory")})
+except MemoryError:
+    send({"type": "error", "code": "OUT_OF_MEMORY", "message": "Exceeded %dMB python memory limit" % task["memoryMb"]})
+except BaseException as error:
+    sys.stdout.flush()
+    sys.stderr.flush()
+    send({"type": "error", "message": "%s: %s" % (type(error).__name__, error), "stack": traceback.format_exc()})
+`;
+
+/**
+ * The command that runs the interpreter with the given arguments, inside the
+ * sandbox unless the operator opted out of it.
+ */
+function pythonCommand(pythonArgs: string[], scratchDir: string | undefined, sandboxed: boolean): [string, string[]] {
+    if (!sandboxed) return [PYTHON_COMMAND, pythonArgs];
+    return [SANDBOX_COMMAND, [
+        '--unshare-all',
+        '--die-with-parent',
+        '--new-session',
+        '--cap-drop', 'ALL',
+        '--clearenv',
+        '--setenv', 'PATH', '/usr/local/bin:/usr/bin:/bin',
+        ...SANDBOX_READONLY_PATHS.flatMap(path => ['--ro-bind-try', path, path]),
+        '--proc', '/proc',
+        '--dev', '/dev',
+        '--tmpfs', '/tmp',
+        ...(scratchDir ? ['--bind', scratchDir, '/scratch'] : ['--dir', '/scratch']),
+        '--chdir', '/scratch',
+        PYTHON_COMMAND,
+        ...pythonArgs,
+    ]];
+}
+
+async function canRun([command, args]: [string, string[]]): Promise<boolean> {
+    try {
+        await execFileAsync(command, args, { timeout: 10000, env: { PATH: process.env.PATH ?? '' } });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Decide whether this node runs python jobs: in the sandbox if it works here,
+ * otherwise only with NODE_PYTHON_UNSANDBOXED=true. Called once by capability
+ * discovery; returns whether to advertise runtime:python.
+ */
+export async function detectPythonRuntime(): Promise<boolean> {
+    runtimeMode = null;
+    if (!PYTHON_COMMAND) return false;
+
+    if (SANDBOX_COMMAND && await canRun(pythonCommand(['-I', '-c', 'pass'], undefined, true))) {
+        runtimeMode = 'sandboxed';
+    } else if (ALLOW_UNSANDBOXED && await canRun(pythonCommand(['-I', '-c', 'pass'], undefined, false))) {
+        runtimeMode = 'unsandboxed';
+        log('warn', 'Python', '⚠️ Python scripts run unsandboxed as the node user (NODE_PYTHON_UNSANDBOXED=true)');
+    } else if (SANDBOX_COMMAND) {
+        log('warn', 'Python', `⚠️ Python runtime disabled: ${SANDBOX_COMMAND} sandbox unavailable (set NODE_PYTHON_UNSANDBOXED=true to run scripts without it)`);
+    }
+    return runtimeMode !== null;
+}
+
+type HarnessMessage =
+    | { type: 'log'; line: string }
+    | { type: 'result'; output: unknown; memory: unknown }
+    | { type: 'error'; code?: string; message: string; stack?: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+/**
+ * Parse one stdout line from the harness. The script can write to the real stdout
+ * too (sys.__stdout__), so anything that is not a well-formed harness message is
+ * null and the caller keeps it as plain output.
+ */
+export function parseHarnessMessage(line: string): HarnessMessage | null {
+    let message: unknown;
+    try {
+        message = JSON.parse(line);
+    } catch {
+        return null;
+    }
+    if (!isRecord(message)) return null;
+
+    switch (message.type) {
+        case 'log':
+            return typeof message.line === 'string' ? { type: 'log', line: message.line } : null;
+        case 'result':
+            return 'output' in message && 'memory' in message
+                ? { type: 'result', output: message.output, memory: message.memory }
+                : null;
+        case 'error':
+            return typeof message.message === 'string' && isOptionalString(message.code) && isOptionalString(message.stack)
+                ? { type: 'error', code: message.code as string | undefined, message: message.message, stack: message.stack as string | undefined }
+                : null;
+        default:
+            return null;
+    }
+}
+
+export async function runPythonAgent(runnerInput: RunnerInput): Promise<RunnerOutput> {
+    const { input, timeout = DEFAULT_TIMEOUT, context = {}, script, tools = [], scratchDir, signal, onLog } = runnerInput;
+    const logs: string[] = [];
+    const capture = (line: string) => {
+        logs.push(line);
+        onLog?.(line);
+    };
+    const startTime = Date.now();
+
+    if (signal?.aborted) {
+        return cancelledOutput(logs, startTime, signal.reason);
+    }
+    if (!script) {
+        return errorOutput(logs, startTime, 'NO_SCRIPT', 'Python jobs need a script');
+    }
+    if (!runtimeMode) {
+        return errorOutput(logs, startTime, 'RUNTIME_UNAVAILABLE', 'Python runtime is disabled on this node');
+    }
+    if (tools.length > 0) {
+        capture('[SYSTEM] Tools are not available to python scripts');
+    }
+
+    return new Promise(resolve => {
+        const sandboxed = runtimeMode === 'sandboxed';
+        const [command, args] = pythonCommand(['-I', '-c', HARNESS], scratchDir, sandboxed);
+        const child = spawn(command, args, {
+            cwd: sandboxed ? undefined : scratchDir ?? os.tmpdir(),
+            env: { PATH: process.env.PATH ?? '' },   // Scripts never see the node's environment
+            stdio: ['pipe', 'pipe', 'pipe'],
+        });
+
+        let settled = false;
+        const finish = (outcome: () => RunnerOutput) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(killTimer);
+            signal?.removeEventListener('abort', onAbort);
+            child.kill('SIGKILL');
+            resolve(outcome());
+        };
+
+        const killTimer = setTimeout(() => finish(() => timeoutOutput(logs, startTime, timeout)), timeout);
+
+        const onAbort = () => finish(() => cancelledOutput(logs, startTime, signal?.reason));
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        createInterface({ input: child.stdout }).on('line', line => {
+            if (settled) return;
+            const message = parseHarnessMessage(line);
+            if (!message) {
+                capture(line);
+                return;
+            }
+
+            switch (message.type) {
+                case 'log':
+                    capture(message.line);
+                    break;
+                case 'result': {
+                    // The script may rebind memory to anything; only a dict can be persisted
+                    const { memory } = message;
+                    if (!isRecord(memory)) {
+                        finish(() => errorOutput(logs, startTime, 'INVALID_MEMORY', 'memory must be a dict'));
+                        break;
+                    }
+                    const endTime = Date.now();
+                    finish(() => ({
+                        status: 'SUCCESS',
+                        output: message.output,
+                        logs,
+                        memory,
+                        metrics: { startTime, endTime, durationMs: endTime - startTime },
+                    }));
+                    break;
+                }
+                case 'error':
+                    finish(() => errorOutput(logs, startTime, message.code ?? 'EXECUTION_ERROR', message.message, message.stack));
+                    break;
+            }
+        });
+
+        // Only the interpreter itself writes here; the harness redirects the script's stderr
+        createInterface({ input: child.stderr }).on('line', line => {
+            if (!settled) capture(`[ERROR] ${line}`);
+        });
+
+        child.on('error', err => {
+            finish(() => errorOutput(logs, startTime, 'RUNTIME_UNAVAILABLE', `Failed to start ${command}: ${err.message}`));
+        });
+
+        child.on('close', code => {
+            finish(() => errorOutput(logs, startTime, 'SANDBOX_EXITED', `Python exited unexpectedly (code ${code})`));
+        });
+
+        child.stdin.on('error', () => { /* Reported through 'error' or 'close' */ });
+        child.stdin.end(JSON.stringify({ code: script, input, memory: context, memoryMb: PYTHON_MEMORY_MB, maxFileBytes: SCRATCH_QUOTA_BYTES }));
+    });
+}
@@ -1,10 +1,18 @@
 // =============================================================================
 // TERMINUS AGENT NODE - Sandbox Runner
 // =============================================================================
-// Executes agent code in an isolated VM context with timeout protection.
+// Executes each agent script in its own worker thread (see sandbox-worker.ts)
+// with a bounded heap, so a script can't reach the node's realm or environment,
+// exhaust its memory, or block the event loop that sends heartbeats.
+// Scripts reach node tools only through the job's allowlist, up to a call limit,
+// and files only through `scratch`, confined to the job's scratch directory.
 // =============================================================================
 
-import { createContext, runInContext, Script } from 'vm';
+import { Worker } from 'worker_threads';
+import type { ContainerSpec, JobAssignMessage, JobResultMessage } from '@terminus/protocol';
+import { SANDBOX_WORKER_SOURCE, type SandboxTask, type SandboxMessage, type SandboxReply } from './sandbox-worker.js';
+import { executeTool, getAvailableTools, type ToolResult } from './tools.js';
+import { listScratchDir, readScratchFile, writeScratchFile } from './scratch.js';
 
 export interface RunnerInput {
     jobId: string;
@@ -14,13 +22,21 @@ export interface RunnerInput {
     timeout?: number;
     context?: Record<string, unknown>;  // Previous memory/state
     script?: string;                     // Dynamic agent code
+    tools?: string[];                    // Tools the script may call
+    container?: ContainerSpec;           // Image to run (container runtime only)
+    wasm?: JobAssignMessage['payload']['wasm'];  // Module and fuel budget (wasm runtime only)
+    scratchDir?: string;                 // Job's scratch directory, removed after the job
+    signal?: AbortSignal;                // Aborted when the control plane cancels the job
+    onLog?: (line: string) => void;      // Called for every captured log line as it happens
+    onToolCall?: (tool: string, params: unknown) => void;  // Called as each tool call starts
 }
 
 export interface RunnerOutput {
-    status: 'SUCCESS' | 'ERROR' | 'TIMEOUT';
+    status: 'SUCCESS' | 'ERROR' | 'TIMEOUT' | 'CANCELLED';
     output?: unknown;
     logs: string[];
     memory?: Record<string, unknown>;   // Updated memory to persist
+    artifacts?: JobResultMessage['payload']['artifacts'];  // Files left in the scratch artifacts/ directory
     error?: {
         code: string;
         message: string;
@@ -30,10 +46,14 @@ export interface RunnerOutput {
         startTime: number;
         endTime: number;
         durationMs: number;
+        toolCalls?: number;
+        fuelUsed?: number;
     };
 }
 
 const DEFAULT_TIMEOUT = 2000;
+const SANDBOX_MEMORY_MB = parseInt(process.env.NODE_SANDBOX_MEMORY_MB ?? '128', 10);
+const MAX_TOOL_CALLS = parseInt(process.env.NODE_MAX_TOOL_CALLS ?? '20', 10);
 
 // Default agent code (used when no script provided)
 const DEFAULT_AGENT_CODE = `
@@ -60,64 +80,187 @@ const DEFAULT_AGENT_CODE = `
 })(input, memory);
 `;
 
+export function cancelledOutput(logs: string[], startTime: number, reason?: unknown): RunnerOutput {
+    const endTime = Date.now();
+    logs.push(`[SYSTEM] Cancelled${reason ? ` (${String(reason)})` : ''}`);
+    return {
+        status: 'CANCELLED',
+        logs,
+        error: { code: 'CANCELLED', message: 'Job was cancelled' },
+        metrics: { startTime, endTime, durationMs: endTime - startTime },
+    };
+}
+
+export function errorOutput(logs: string[], startTime: number, code: string, message: string, stack?: string): RunnerOutput {
+    const endTime = Date.now();
+    logs.push(`[SYSTEM] Error: ${message}`);
+    return {
+        status: 'ERROR',
+        logs,
+        error: { code, message, stack },
+        metrics: { startTime, endTime, durationMs: endTime - startTime },
+    };
+}
+
+export function timeoutOutput(logs: string[], startTime: number, timeout: number): RunnerOutput {
+    const endTime = Date.now();
+    logs.push(`[SYSTEM] Timeout after ${timeout}ms`);
+    return {
+        status: 'TIMEOUT',
+        logs,
+        error: { code: 'TIMEOUT', message: `Exceeded ${timeout}ms` },
+        metrics: { startTime, endTime, durationMs: endTime - startTime },
+    };
+}
+
+/**
+ * Perform a script's scratch call. Errors mention paths relative to the scratch directory.
+ */
+function scratchCall(dir: string | undefined, message: Extract<SandboxMessage, { type: 'scratch' }>): ToolResult {
+    try {
+        if (!dir) throw new Error('This job has no scratch directory');
+        switch (message.op) {
+            case 'readFile':
+                return { success: true, output: readScratchFile(dir, message.path).toString('utf-8') };
+            case 'writeFile':
+                writeScratchFile(dir, message.path, Buffer.from(message.data ?? '', message.binary ? 'latin1' : 'utf-8'));
+                return { success: true };
+            case 'list':
+                return { success: true, output: listScratchDir(dir, message.path) };
+        }
+    } catch (error) {
+        return { success: false, error: dir ? (error as Error).message.replaceAll(dir, '.') : (error as Error).message };
+    }
+}
+
 export async function runAgent(runnerInput: RunnerInput): Promise<RunnerOutput> {
-    const { input, timeout = DEFAULT_TIMEOUT, context = {}, script } = runnerInput;
+    const { input, timeout = DEFAULT_TIMEOUT, context = {}, script, tools = [], scratchDir, signal, onLog, onToolCall } = runnerInput;
     const logs: string[] = [];
+    const capture = (line: string) => {
+        logs.push(line);
+        onLog?.(line);
+    };
     const startTime = Date.now();
-    const memory = { ...context };
 
-    try {
-        const sandbox = {
-            input,
-            memory,
-            console: {
-                log: (...args: unknown[]) => {
-                    logs.push(args.map(a => typeof a === 'string' ? a : JSON.stringify(a)).join(' '));
-                },
-                error: (...args: unknown[]) => {
-                    logs.push(`[ERROR] ${args.map(a => typeof a === 'string' ? a : JSON.stringify(a)).join(' ')}`);
-                },
-                warn: (...args: unknown[]) => {
-                    logs.push(`[WARN] ${args.map(a => typeof a === 'string' ? a : JSON.stringify(a)).join(' ')}`);
-                },
+    if (signal?.aborted) {
+        return cancelledOutput(logs, startTime, signal.reason);
+    }
+
+    // Placement only sends jobs to nodes hosting their tools, but never expose one we don't have
+    const available = getAvailableTools();
+    const allowed = tools.filter(t => available.includes(t));
+    const missing = tools.filter(t => !available.includes(t));
+    if (missing.length > 0) {
+        capture(`[SYSTEM] Tools not available on this node: ${missing.join(', ')}`);
+    }
+
+    const task: SandboxTask = {
+        code: script ?? DEFAULT_AGENT_CODE,
+        input: JSON.stringify(input),
+        memory: JSON.stringify(context),
+        tools: allowed,
+        timeout,
+    };
+    let toolCalls = 0;
+
+    return new Promise(resolve => {
+        const worker = new Worker(SANDBOX_WORKER_SOURCE, {
+            eval: true,
+            workerData: task,
+            resourceLimits: {
+                maxOldGenerationSizeMb: SANDBOX_MEMORY_MB,
+                maxYoungGenerationSizeMb: Math.max(Math.floor(SANDBOX_MEMORY_MB / 4), 4),
+                stackSizeMb: 4,
             },
-            JSON, Math, Date, Array, Object, String, Number, Boolean,
-            parseInt, parseFloat, isNaN, isFinite,
-        };
+            env: {},                         // Scripts never see the node's environment (API keys, keystore password)
+        });
 
-        const ctx = createContext(sandbox);
-        const code = script ?? DEFAULT_AGENT_CODE;
-        const compiled = new Script(code, { filename: 'agent.js' });
-        const output = compiled.runInContext(ctx, { timeout });
-        const endTime = Date.now();
-
-        return {
-            status: 'SUCCESS',
-            output,
-            logs,
-            memory: sandbox.memory,
-            metrics: { startTime, endTime, durationMs: endTime - startTime },
+        let settled = false;
+        // Outputs are built lazily so only the first outcome touches the logs
+        const finish = (outcome: () => RunnerOutput) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(killTimer);
+            signal?.removeEventListener('abort', onAbort);
+            void worker.terminate();
+            const output = outcome();
+            if (toolCalls > 0) output.metrics.toolCalls = toolCalls;
+            resolve(output);
         };
-    } catch (error) {
-        const endTime = Date.now();
-        const err = error as Error;
-
-        if (err.message?.includes('Script execution timed out')) {
-            logs.push(`[SYSTEM] Timeout after ${timeout}ms`);
-            return {
-                status: 'TIMEOUT',
-                logs,
-                error: { code: 'TIMEOUT', message: `Exceeded ${timeout}ms` },
-                metrics: { startTime, endTime, durationMs: endTime - startTime },
-            };
-        }
 
-        logs.push(`[SYSTEM] Error: ${err.message}`);
-        return {
-            status: 'ERROR',
-            logs,
-            error: { code: 'EXECUTION_ERROR', message: err.message, stack: err.stack },
-            metrics: { startTime, endTime, durationMs: endTime - startTime },
+        const callTool = async (callId: number, tool: string, paramsJson: string) => {
+            const params: unknown = JSON.parse(paramsJson);
+            const callStart = Date.now();
+            let result: ToolResult;
+
+            if (++toolCalls > MAX_TOOL_CALLS) {
+                result = { success: false, error: `Tool call limit (${MAX_TOOL_CALLS}) exceeded` };
+            } else if (!allowed.includes(tool)) {
+                result = { success: false, error: `Tool not allowed: ${tool}` };
+            } else {
+                onToolCall?.(tool, params);
+                result = await executeTool(tool, params).catch(err => ({ success: false, error: (err as Error).message }));
+            }
+
+            // The job may have finished (or been killed) while the tool ran
+            if (settled) return;
+            const outcome = result.success ? 'ok' : `failed: ${result.error}`;
+            capture(`[Tool] ${tool}(${paramsJson}) ${outcome} (${Date.now() - callStart}ms)`);
+            const reply: SandboxReply = { type: 'toolResult', callId, result: JSON.stringify(result) };
+            worker.postMessage(reply);
         };
-    }
+
+        // Wall-clock deadline across sync and async work: the VM timeout only interrupts
+        // synchronous code, so the thread is killed once the deadline passes
+        const killTimer = setTimeout(() => finish(() => timeoutOutput(logs, startTime, timeout)), timeout);
+
+        // Cancelled while running: kill the worker, discard output and memory changes
+        const onAbort = () => finish(() => cancelledOutput(logs, startTime, signal?.reason));
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        worker.on('message', (message: SandboxMessage) => {
+            switch (message.type) {
+                case 'log':
+                    capture(message.line);
+                    break;
+                case 'tool':
+                    void callTool(message.callId, message.tool, message.params);
+                    break;
+                case 'scratch': {
+                    const reply: SandboxReply = { type: 'toolResult', callId: message.callId, result: JSON.stringify(scratchCall(scratchDir, message)) };
+                    worker.postMessage(reply);
+                    break;
+                }
+                case 'result': {
+                    const { output, memory } = JSON.parse(message.result) as Pick<RunnerOutput, 'output' | 'memory'>;
+                    const endTime = Date.now();
+                    finish(() => ({
+                        status: 'SUCCESS',
+                        output,
+                        logs,
+                        memory,
+                        metrics: { startTime, endTime, durationMs: endTime - startTime },
+                    }));
+                    break;
+                }
+                case 'error':
+                    finish(() => message.timedOut
+                        ? timeoutOutput(logs, startTime, timeout)
+                        : errorOutput(logs, startTime, 'EXECUTION_ERROR', message.message, message.stack));
+                    break;
+            }
+        });
+
+        worker.on('error', (err: Error & { code?: string }) => {
+            if (err.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+                finish(() => errorOutput(logs, startTime, 'OUT_OF_MEMORY', `Exceeded ${SANDBOX_MEMORY_MB}MB sandbox memory limit`));
+            } else {
+                finish(() => errorOutput(logs, startTime, 'EXECUTION_ERROR', err.message, err.stack));
+            }
+        });
+
+        worker.on('exit', code => {
+            finish(() => errorOutput(logs, startTime, 'SANDBOX_EXITED', `Sandbox exited unexpectedly (code ${code})`));
+        });
+    });
 }
@@ -0,0 +1,208 @@
+// =============================================================================
+// TERMINUS AGENT NODE - Sandbox Worker
+// =============================================================================
+// Source of the worker thread that runs a single agent script. The script gets a
+// fresh VM context holding only frozen, context-native built-ins plus `input`,
+// `memory`, `console`, `tools` and `scratch`: no object from the worker's realm is reachable
+// from it, string code generation is disabled, and data crosses the boundary as JSON.
+// The runner bounds the worker's heap and kills it on timeout or cancellation.
+//
+// `tools` holds one async function per tool on the job's allowlist. Calls are
+// posted to the runner, which executes the node tool and posts the result back.
+// `scratch` works the same way over the job's scratch directory: readFile,
+// writeFile (strings or Uint8Arrays) and list. Files written to artifacts/ are
+// returned with the job's result.
+//
+// Scripts may be async: a returned Promise is awaited and its value becomes the
+// output. Scripts using top-level `await` run as an async function body, so they
+// `return` their output. The runner enforces the wall-clock timeout across all of it.
+//
+// The worker is started from source (`eval: true`) rather than from a module
+// file so it loads the same way under tsx and from the compiled build.
+// =============================================================================
+
+export interface SandboxTask {
+    code: string;
+    input?: string;                  // JSON-encoded
+    memory: string;                  // JSON-encoded
+    tools: string[];                 // Tool names exposed on `tools`
+    timeout: number;
+}
+
+// Worker → runner
+export type SandboxMessage =
+    | { type: 'log'; line: string }
+    | { type: 'tool'; callId: number; tool: string; params: string }   // params JSON-encoded
+    | { type: 'scratch'; callId: number; op: ScratchOp; path: string; data?: string; binary?: boolean }  // binary: data holds one byte per char
+    | { type: 'result'; result: string }              // JSON { output, memory }
+    | { type: 'error'; message: string; stack?: string; timedOut: boolean };
+
+export type ScratchOp = 'readFile' | 'writeFile' | 'list';
+
+// Runner → worker
+export type SandboxReply =
+    | { type: 'toolResult'; callId: number; result: string };          // JSON ToolResult, also for scratch calls
+
+// Evaluated inside the script's context. `emit`, `callTool`, `callScratch` and
+// the result callbacks passed to `finish` are the only functions from the
+// worker's realm the script could ever reach, and they stay hidden in closures.
+const BOOTSTRAP = `(function (emit, callTool, callScratch, inputJson, memoryJson, toolsJson) {
+  'use strict';
+  for (const name of Object.getOwnPropertyNames(globalThis)) {
+    const value = globalThis[name];
+    if (value !== null && (typeof value === 'object' || typeof value === 'function') && value !== globalThis) {
+      Object.freeze(value);
+      if (value.prototype) Object.freeze(value.prototype);
+    }
+  }
+
+  const stringify = JSON.stringify;
+  const parse = JSON.parse;
+  const format = args => args.map(a => typeof a === 'string' ? a : stringify(a)).join(' ');
+  const console = Object.freeze({
+    log: (...args) => emit(format(args)),
+    error: (...args) => emit('[ERROR] ' + format(args)),
+    warn: (...args) => emit('[WARN] ' + format(args)),
+  });
+
+  const pending = new Map();
+  let nextCallId = 0;
+  const tools = Object.create(null);
+  for (const name of parse(toolsJson)) {
+    tools[name] = params => new Promise((resolve, reject) => {
+      const callId = nextCallId++;
+      pending.set(callId, { resolve, reject });
+      callTool(callId, name, stringify(params === undefined ? {} : params) ?? 'null');
+    });
+  }
+
+  // Bytes cross as a string of char codes so nothing but primitives leaves the context
+  const toBinary = bytes => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000));
+    return binary;
+  };
+  const scratchCall = (op, path, data, binary) => new Promise((resolve, reject) => {
+    const callId = nextCallId++;
+    pending.set(callId, { resolve, reject });
+    callScratch(callId, op, String(path), data, binary);
+  });
+  const scratch = Object.freeze({
+    readFile: path => scratchCall('readFile', path),
+    writeFile: async (path, data) => {
+      if (data instanceof Uint8Array) await scratchCall('writeFile', path, toBinary(data), true);
+      else if (typeof data === 'string') await scratchCall('writeFile', path, data, false);
+      else throw new TypeError('scratch.writeFile needs a string or Uint8Array');
+    },
+    list: (path = '.') => scratchCall('list', path),
+  });
+
+  Object.defineProperty(globalThis, 'console', { value: console });
+  Object.defineProperty(globalThis, 'tools', { value: Object.freeze(tools) });
+  Object.defineProperty(globalThis, 'scratch', { value: scratch });
+  globalThis.input = inputJson === undefined ? undefined : parse(inputJson);
+  globalThis.memory = parse(memoryJson);
+
+  // Failed tool calls reject, so scripts can try/catch them
+  const settle = (callId, resultJson) => {
+    const call = pending.get(callId);
+    if (!call) return;
+    pending.delete(callId);
+    const result = parse(resultJson);
+    if (result.success) call.resolve(result.output);
+    else call.reject(new Error(result.error ?? 'Tool failed'));
+  };
+  const serialize = output => stringify({ output, memory: globalThis.memory });
+
+  // Errors leave the context as JSON { message, stack }, read here so none of
+  // the script's objects (or getters) are touched from the worker's realm
+  const describe = error => {
+    try {
+      const message = String(error !== null && typeof error === 'object' && 'message' in error ? error.message : error);
+      const stack = error !== null && typeof error === 'object' && typeof error.stack === 'string' ? error.stack : undefined;
+      return stringify({ message, stack });
+    } catch {
+      return stringify({ message: 'Script threw a value that cannot be described' });
+    }
+  };
+
+  // The script's result is awaited with this context's own Promise, so a
+  // script-supplied thenable only ever receives functions from this realm,
+  // and only strings are handed to onResult/onError
+  const finish = (result, onResult, onError) => {
+    Promise.resolve(result).then(output => {
+      let json;
+      try {
+        json = serialize(output);
+      } catch (error) {
+        onError(describe(error));
+        return;
+      }
+      onResult(json);
+    }, error => onError(describe(error)));
+  };
+
+  return Object.freeze({ settle, describe, finish });
+})`;
+
+/**
+ * Worker entry point (CommonJS). Reads a SandboxTask from workerData and posts
+ * SandboxMessages back: any number of logs, then one result or error.
+ */
+export const SANDBOX_WORKER_SOURCE = `'use strict';
+const { parentPort, workerData: task } = require('worker_threads');
+const { createContext, Script } = require('vm');
+
+const post = message => parentPort.postMessage(message);
+
+const context = createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+});
+const bootstrap = new Script(${JSON.stringify(BOOTSTRAP)}, { filename: 'sandbox-bootstrap.js' }).runInContext(context);
+const { settle, describe, finish } = bootstrap(
+  line => post({ type: 'log', line: String(line) }),
+  (callId, tool, params) => post({ type: 'tool', callId, tool, params: String(params) }),
+  (callId, op, path, data, binary) => post({ type: 'scratch', callId, op: String(op), path: String(path), data: data === undefined ? undefined : String(data), binary: binary === true }),
+  task.input,
+  task.memory,
+  JSON.stringify(task.tools),
+);
+
+// Listening also keeps the worker alive while the script waits, so a promise
+// that never settles runs into the runner's deadline rather than draining the loop
+parentPort.on('message', reply => {
+  if (reply.type === 'toolResult') settle(reply.callId, reply.result);
+});
+
+function compile(code) {
+  try {
+    return new Script(code, { filename: 'agent.js' });
+  } catch (error) {
+    // Top-level await is only valid in a function body
+    if (error?.name !== 'SyntaxError' || !/\\bawait\\b/.test(code)) throw error;
+    return new Script('(async () => {\\n' + code + '\\n})()', { filename: 'agent.js', lineOffset: -1 });
+  }
+}
+
+// A script's own thenable could call back more than once; only the first counts
+let done = false;
+const onResult = json => {
+  if (done) return;
+  done = true;
+  post({ type: 'result', result: String(json) });
+};
+const onError = json => {
+  if (done) return;
+  done = true;
+  const { message, stack } = JSON.parse(String(json));
+  post({ type: 'error', message, stack, timedOut: message.includes('Script execution timed out') });
+};
+
+try {
+  // The VM timeout only covers the synchronous part; the runner kills the worker at the deadline
+  const result = compile(task.code).runInContext(context, { timeout: task.timeout });
+  finish(result, onResult, onError);
+} catch (error) {
+  onError(describe(error));
+}
+`;
@@ -0,0 +1,168 @@
+// =============================================================================
+// TERMINUS AGENT NODE - Job Scratch Directories
+// =============================================================================
+// Every job gets its own scratch directory under NODE_SCRATCH_DIR, created
+// before it runs and removed when it ends, with total usage capped at
+// NODE_SCRATCH_QUOTA_MB. JS scripts reach it only through the `scratch` API
+// (quota checked on every write); python and container jobs work in it
+// directly, so their usage is polled while they run and the job is killed as
+// soon as it goes over (see watchScratchQuota).
+//
+// Files a successful job leaves in artifacts/ are its artifacts: they go back
+// to the control plane with the result (see job-handler.ts).
+// =============================================================================
+
+import { existsSync, lstatSync, type Dirent, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { dirname, extname, join, resolve, sep } from 'path';
+import os from 'os';
+import { ARTIFACT_NAME_PATTERN } from '@terminus/protocol';
+
+const SCRATCH_ROOT = process.env.NODE_SCRATCH_DIR ?? join(os.tmpdir(), 'terminus-scratch');
+export const SCRATCH_QUOTA_BYTES = parseInt(process.env.NODE_SCRATCH_QUOTA_MB ?? '16', 10) * 1024 * 1024;
+export const ARTIFACTS_DIR = 'artifacts';
+const QUOTA_POLL_MS = 200;
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.txt': 'text/plain',
+    '.md': 'text/markdown',
+    '.csv': 'text/csv',
+    '.json': 'application/json',
+    '.html': 'text/html',
+    '.xml': 'application/xml',
+    '.pdf': 'application/pdf',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.svg': 'image/svg+xml',
+    '.zip': 'application/zip',
+};
+
+export interface ScratchArtifact {
+    name: string;
+    contentType: string;
+    content: Buffer;
+}
+
+/**
+ * Create a job's scratch directory (with an empty artifacts/ inside), readable
+ * only by the node user.
+ */
+export function createScratch(runId: string): string {
+    mkdirSync(SCRATCH_ROOT, { recursive: true, mode: 0o700 });
+    const dir = mkdtempSync(join(SCRATCH_ROOT, `${runId.replace(/[^\w-]/g, '_')}-`));
+    mkdirSync(join(dir, ARTIFACTS_DIR));
+    return dir;
+}
+
+export function removeScratch(dir: string): void {
+    rmSync(dir, { recursive: true, force: true });
+}
+
+/**
+ * Bytes used under a directory. Symlinks count as themselves and are never
+ * followed; files a running job removes while it is counted are skipped.
+ */
+export function scratchUsage(dir: string): number {
+    let entries: Dirent[];
+    try {
+        entries = readdirSync(dir, { withFileTypes: true });
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+        throw error;
+    }
+
+    let total = 0;
+    for (const entry of entries) {
+        const path = join(dir, entry.name);
+        total += entry.isDirectory() ? scratchUsage(path) : lstatSync(path, { throwIfNoEntry: false })?.size ?? 0;
+    }
+    return total;
+}
+
+/**
+ * Poll a running job's scratch usage and call onExceeded (once) when it goes
+ * over the quota. Returns a function that stops watching.
+ */
+export function watchScratchQuota(dir: string, onExceeded: (usage: number) => void): () => void {
+    const timer = setInterval(() => {
+        let usage: number;
+        try {
+            usage = scratchUsage(dir);
+        } catch {
+            return;     // e.g. a directory the job made unreadable; the final check still applies
+        }
+        if (usage > SCRATCH_QUOTA_BYTES) {
+            clearInterval(timer);
+            onExceeded(usage);
+        }
+    }, QUOTA_POLL_MS);
+    return () => clearInterval(timer);
+}
+
+/**
+ * Resolve a script-supplied path inside the scratch directory. Throws if it
+ * points outside.
+ */
+function scratchPath(dir: string, path: string): string {
+    const full = resolve(dir, path);
+    if (full !== dir && !full.startsWith(dir + sep)) {
+        throw new Error(`Path escapes the scratch directory: ${path}`);
+    }
+    return full;
+}
+
+/**
+ * Write a file for a JS script, refusing writes that would exceed the quota.
+ */
+export function writeScratchFile(dir: string, path: string, data: Buffer): void {
+    const file = scratchPath(dir, path);
+    const existing = statSync(file, { throwIfNoEntry: false });
+    if (existing?.isDirectory()) {
+        throw new Error(`Is a directory: ${path}`);
+    }
+    if (scratchUsage(dir) - (existing?.size ?? 0) + data.length > SCRATCH_QUOTA_BYTES) {
+        throw new Error(`Scratch quota of ${SCRATCH_QUOTA_BYTES} bytes exceeded`);
+    }
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, data);
+}
+
+export function readScratchFile(dir: string, path: string): Buffer {
+    return readFileSync(scratchPath(dir, path));
+}
+
+/**
+ * Entries of a scratch directory; subdirectories end with '/'.
+ */
+export function listScratchDir(dir: string, path = '.'): string[] {
+    return readdirSync(scratchPath(dir, path), { withFileTypes: true })
+        .map(entry => entry.isDirectory() ? `${entry.name}/` : entry.name);
+}
+
+/**
+ * The regular files in artifacts/. Anything else there (subdirectories,
+ * symlinks, names the protocol doesn't allow) is reported through onSkip.
+ */
+export function collectArtifacts(dir: string, onSkip: (name: string, reason: string) => void): ScratchArtifact[] {
+    const artifactsDir = join(dir, ARTIFACTS_DIR);
+    if (!existsSync(artifactsDir)) return [];
+    const entries = readdirSync(artifactsDir, { withFileTypes: true })
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+    const artifacts: ScratchArtifact[] = [];
+    for (const entry of entries) {
+        if (!entry.isFile()) {
+            onSkip(entry.name, 'not a regular file');
+        } else if (!ARTIFACT_NAME_PATTERN.test(entry.name)) {
+            onSkip(entry.name, 'invalid name');
+        } else {
+            artifacts.push({
+                name: entry.name,
+                contentType: CONTENT_TYPES[extname(entry.name).toLowerCase()] ?? 'application/octet-stream',
+                content: readFileSync(join(artifactsDir, entry.name)),
+            });
+        }
+    }
+    return artifacts;
+}
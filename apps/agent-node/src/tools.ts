@@ -1,15 +1,17 @@
 // =============================================================================
 // TERMINUS AGENT NODE - Tools
 // =============================================================================
-// Real executable tools that nodes can run in the sandbox.
+// Real executable tools that nodes can run in the sandbox. Each tool has a
+// manifest (params JSON schema, permissions) that is advertised to the control plane.
 // =============================================================================
 
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
 import * as https from 'https';
 import * as http from 'http';
+import { validateToolParams, type ToolManifest } from '@terminus/protocol';
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 export interface ToolResult {
     success: boolean;
@@ -98,12 +100,21 @@ export async function reverseText(text: string): Promise<ToolResult> {
     }
 }
 
-export async function runShellCommand(command: string): Promise<ToolResult> {
-    // Only allow safe commands
-    const allowedPrefixes = ['echo', 'date', 'whoami', 'uname'];
-    const isAllowed = allowedPrefixes.some(p => command.startsWith(p));
+// Commands runShellCommand may run, each with a check on its arguments
+const SHELL_COMMANDS: Record<string, (args: string[]) => boolean> = {
+    echo: () => true,
+    date: args => args.every(a => a === '-u' || a === '-R' || a.startsWith('+')),
+    whoami: args => args.length === 0,
+    uname: args => args.every(a => /^-[asnrvmpio]+$/.test(a)),
+};
 
-    if (!isAllowed) {
+/**
+ * Run an allowlisted command. The command line is split on whitespace and run
+ * without a shell, so there are no pipes, redirects, substitutions or quoting.
+ */
+export async function runShellCommand(command: string): Promise<ToolResult> {
+    const [file, ...args] = command.trim().split(/\s+/);
+    if (!Object.hasOwn(SHELL_COMMANDS, file) || !SHELL_COMMANDS[file](args)) {
         return {
             success: false,
             error: 'Command not in allowlist',
@@ -111,7 +122,7 @@ export async function runShellCommand(command: string): Promise<ToolResult> {
     }
 
     try {
-        const { stdout, stderr } = await execAsync(command, { timeout: 5000 });
+        const { stdout, stderr } = await execFileAsync(file, args, { timeout: 5000, shell: false });
         return {
             success: true,
             output: { stdout: stdout.trim(), stderr: stderr.trim() },
@@ -153,26 +164,115 @@ function fetchText(url: string): Promise<string> {
     });
 }
 
+// =============================================================================
+// Built-in Tools
+// =============================================================================
+
+export interface ToolDefinition {
+    manifest: ToolManifest;
+    execute: (params: any) => Promise<ToolResult>;
+}
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+    {
+        manifest: {
+            name: 'webSearch',
+            description: 'Search the web for a topic',
+            parameters: stringParams('query'),
+            permissions: ['network'],
+        },
+        execute: (p) => webSearch(p.query),
+    },
+    {
+        manifest: {
+            name: 'fetchUrl',
+            description: 'Fetch the contents of a URL',
+            parameters: stringParams('url'),
+            permissions: ['network'],
+        },
+        execute: (p) => fetchUrl(p.url),
+    },
+    {
+        manifest: {
+            name: 'calculateSum',
+            description: 'Add up a list of numbers',
+            parameters: {
+                type: 'object',
+                properties: { numbers: { type: 'array', items: { type: 'number' } } },
+                required: ['numbers'],
+            },
+        },
+        execute: (p) => calculateSum(p.numbers),
+    },
+    {
+        manifest: {
+            name: 'reverseText',
+            description: 'Reverse a string',
+            parameters: stringParams('text'),
+        },
+        execute: (p) => reverseText(p.text),
+    },
+    {
+        manifest: {
+            name: 'runShellCommand',
+            description: 'Run an allowlisted command (echo, date, whoami, uname) without a shell',
+            parameters: stringParams('command'),
+            permissions: ['shell'],
+        },
+        execute: (p) => runShellCommand(p.command),
+    },
+];
+
+function stringParams(name: string): Record<string, unknown> {
+    return { type: 'object', properties: { [name]: { type: 'string' } }, required: [name] };
+}
+
 // =============================================================================
 // Tool Registry
 // =============================================================================
+// Filled at startup by loadTools (plugins.ts) with the built-in and plugin tools
+// this node is allowed to run.
 
-export const TOOLS: Record<string, (params: any) => Promise<ToolResult>> = {
-    webSearch: (p) => webSearch(p.query),
-    fetchUrl: (p) => fetchUrl(p.url),
-    calculateSum: (p) => calculateSum(p.numbers),
-    reverseText: (p) => reverseText(p.text),
-    runShellCommand: (p) => runShellCommand(p.command),
-};
+const registry = new Map<string, ToolDefinition>();
+
+export function registerTool(tool: ToolDefinition): void {
+    registry.set(tool.manifest.name, tool);
+}
+
+export function hasTool(name: string): boolean {
+    return registry.has(name);
+}
+
+export function getToolManifest(name: string): ToolManifest | undefined {
+    return registry.get(name)?.manifest;
+}
+
+export function getToolManifests(): ToolManifest[] {
+    return Array.from(registry.values(), t => t.manifest);
+}
 
 export function getAvailableTools(): string[] {
-    return Object.keys(TOOLS);
+    return Array.from(registry.keys());
 }
 
+/**
+ * Run a tool after checking the params against its manifest. Tools that throw
+ * (plugins included) are reported as failed calls.
+ */
 export async function executeTool(name: string, params: unknown): Promise<ToolResult> {
-    const tool = TOOLS[name];
+    const tool = registry.get(name);
     if (!tool) {
         return { success: false, error: `Unknown tool: ${name}` };
     }
-    return tool(params);
+
+    const invalid = validateToolParams(tool.manifest, params);
+    if (invalid) {
+        return { success: false, error: invalid };
+    }
+
+    try {
+        return await tool.execute(params);
+    } catch (error) {
+        return { success: false, error: `${name} failed: ${(error as Error).message}` };
+    }
 }
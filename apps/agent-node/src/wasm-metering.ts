@@ -0,0 +1,403 @@
+// =============================================================================
+// TERMINUS AGENT NODE - WASM Fuel Metering
+// =============================================================================
+// Rewrites a wasm module so it pays for the instructions it executes. Each
+// function entry and each loop iteration subtracts the instruction count of its
+// body (nested loops pay for themselves) from an exported i64 fuel global, and
+// traps once the fuel drops below zero. Branching out early still pays for the
+// whole body, so the charge is an upper bound, but it is deterministic.
+//
+// The rewrite also caps every memory at the node's page limit and exports the
+// start function instead of running it on instantiation, so the runner can set
+// the fuel first. Modules using instructions outside the MVP plus sign
+// extension, saturating truncation, bulk memory, reference types and tail calls
+// (SIMD, threads, exceptions, GC) are rejected.
+// =============================================================================
+
+export const FUEL_EXPORT = '__terminus_fuel';
+export const START_EXPORT = '__terminus_start';
+
+export interface MeteringOptions {
+    maxMemoryPages: number;          // 64KiB pages
+}
+
+const SECTION = { custom: 0, import: 2, memory: 5, global: 6, export: 7, start: 8, code: 10 } as const;
+
+// Non-custom sections in the order the binary format requires
+const SECTION_ORDER = [1, 2, 3, 4, 5, 13, 6, 7, 8, 9, 12, 10, 11];
+
+interface Section {
+    id: number;
+    body: Uint8Array;
+}
+
+// =============================================================================
+// Binary Encoding
+// =============================================================================
+
+class Reader {
+    pos = 0;
+
+    constructor(readonly bytes: Uint8Array) {}
+
+    get done(): boolean {
+        return this.pos >= this.bytes.length;
+    }
+
+    byte(): number {
+        if (this.pos >= this.bytes.length) throw new Error('Unexpected end of module');
+        return this.bytes[this.pos++];
+    }
+
+    peek(): number {
+        return this.bytes[this.pos];
+    }
+
+    u32(): number {
+        let result = 0;
+        let scale = 1;
+        let b: number;
+        do {
+            b = this.byte();
+            result += (b & 0x7f) * scale;
+            scale *= 128;
+        } while (b & 0x80);
+        return result;
+    }
+
+    // Skips a signed or unsigned LEB128 of any width
+    leb(): void {
+        while (this.byte() & 0x80);
+    }
+
+    skip(n: number): void {
+        if (this.pos + n > this.bytes.length) throw new Error('Unexpected end of module');
+        this.pos += n;
+    }
+
+    slice(n: number): Uint8Array {
+        const start = this.pos;
+        this.skip(n);
+        return this.bytes.subarray(start, this.pos);
+    }
+}
+
+function u32(value: number): number[] {
+    const out: number[] = [];
+    do {
+        let b = value & 0x7f;
+        value = Math.floor(value / 128);
+        if (value > 0) b |= 0x80;
+        out.push(b);
+    } while (value > 0);
+    return out;
+}
+
+function s64(value: bigint): number[] {
+    const out: number[] = [];
+    for (;;) {
+        const b = Number(value & 0x7fn);
+        value >>= 7n;
+        if ((value === 0n && !(b & 0x40)) || (value === -1n && (b & 0x40))) {
+            out.push(b);
+            return out;
+        }
+        out.push(b | 0x80);
+    }
+}
+
+function name(text: string): number[] {
+    const bytes = new TextEncoder().encode(text);
+    return [...u32(bytes.length), ...bytes];
+}
+
+function concat(parts: ArrayLike<number>[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+// =============================================================================
+// Sections
+// =============================================================================
+
+function readSections(bytes: Uint8Array): Section[] {
+    const header = [0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00];
+    if (bytes.length < 8 || header.some((b, i) => bytes[i] !== b)) {
+        throw new Error('Not a WebAssembly 1.0 module');
+    }
+
+    const reader = new Reader(bytes);
+    reader.skip(8);
+    const sections: Section[] = [];
+    while (!reader.done) {
+        const id = reader.byte();
+        sections.push({ id, body: reader.slice(reader.u32()) });
+    }
+    return sections;
+}
+
+function writeModule(sections: Section[]): Uint8Array {
+    return concat([
+        [0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00],
+        ...sections.flatMap(s => [[s.id, ...u32(s.body.length)], s.body]),
+    ]);
+}
+
+// Insert a section the module didn't have at its required position
+function insertSection(sections: Section[], section: Section): void {
+    const rank = SECTION_ORDER.indexOf(section.id);
+    const index = sections.findIndex(s => s.id !== SECTION.custom && SECTION_ORDER.indexOf(s.id) > rank);
+    sections.splice(index === -1 ? sections.length : index, 0, section);
+}
+
+function skipLimits(reader: Reader): void {
+    const flags = reader.byte();
+    reader.u32();
+    if (flags & 0x01) reader.u32();
+}
+
+function countImportedGlobals(body: Uint8Array): number {
+    const reader = new Reader(body);
+    let globals = 0;
+    for (let i = reader.u32(); i > 0; i--) {
+        reader.skip(reader.u32());   // module
+        reader.skip(reader.u32());   // field
+        const kind = reader.byte();
+        switch (kind) {
+            case 0x00: reader.u32(); break;                          // function
+            case 0x01: reader.byte(); skipLimits(reader); break;     // table
+            case 0x02: throw new Error('Imported memories are not supported');
+            case 0x03: reader.byte(); reader.byte(); globals++; break;
+            default: throw new Error(`Unsupported import kind 0x${kind.toString(16)}`);
+        }
+    }
+    return globals;
+}
+
+function capMemories(body: Uint8Array, maxPages: number): Uint8Array {
+    const reader = new Reader(body);
+    const count = reader.u32();
+    const out: number[] = [...u32(count)];
+    for (let i = 0; i < count; i++) {
+        const flags = reader.byte();
+        if (flags > 0x01) throw new Error('Shared and 64-bit memories are not supported');
+        const min = reader.u32();
+        const max = flags & 0x01 ? Math.min(reader.u32(), maxPages) : maxPages;
+        if (min > maxPages) {
+            throw new Error(`Module needs ${min} memory pages, over the node limit of ${maxPages}`);
+        }
+        out.push(0x01, ...u32(min), ...u32(max));
+    }
+    return Uint8Array.from(out);
+}
+
+// Append entries to a vector section (global, export), creating it if missing
+function appendEntries(body: Uint8Array | undefined, entries: number[][]): Uint8Array {
+    if (!body) return concat([u32(entries.length), ...entries]);
+    const reader = new Reader(body);
+    const count = reader.u32();
+    return concat([u32(count + entries.length), body.subarray(reader.pos), ...entries]);
+}
+
+// =============================================================================
+// Code Metering
+// =============================================================================
+
+// Charge `cost` fuel and trap if the budget is exhausted
+function chargeFuel(fuelGlobal: number, cost: number): number[] {
+    const global = u32(fuelGlobal);
+    return [
+        0x23, ...global,            // global.get $fuel
+        0x42, ...s64(BigInt(cost)), // i64.const cost
+        0x7d,                       // i64.sub
+        0x24, ...global,            // global.set $fuel
+        0x23, ...global,            // global.get $fuel
+        0x42, 0x00,                 // i64.const 0
+        0x53,                       // i64.lt_s
+        0x04, 0x40,                 // if
+        0x00,                       //   unreachable
+        0x0b,                       // end
+    ];
+}
+
+function skipBlockType(reader: Reader): void {
+    const b = reader.peek();
+    if (b === 0x63 || b === 0x64) throw new Error('GC reference types are not supported');
+    reader.leb();   // empty (0x40), a value type, or a type index
+}
+
+// Skip the immediates of one instruction
+function skipImmediates(reader: Reader, opcode: number): void {
+    if ((opcode >= 0x45 && opcode <= 0xc4) || [0x00, 0x01, 0x05, 0x0b, 0x0f, 0x1a, 0x1b, 0xd1].includes(opcode)) {
+        return;
+    }
+
+    switch (opcode) {
+        case 0x02: case 0x03: case 0x04:                 // block, loop, if
+            skipBlockType(reader);
+            return;
+        case 0x0c: case 0x0d: case 0x10: case 0x12:      // br, br_if, call, return_call
+        case 0x20: case 0x21: case 0x22: case 0x23: case 0x24: case 0x25: case 0x26:
+        case 0x3f: case 0x40: case 0xd2:                 // memory.size, memory.grow, ref.func
+            reader.u32();
+            return;
+        case 0x0e:                                       // br_table
+            for (let n = reader.u32() + 1; n > 0; n--) reader.u32();
+            return;
+        case 0x11: case 0x13:                            // call_indirect, return_call_indirect
+            reader.u32();
+            reader.u32();
+            return;
+        case 0x1c:                                       // select t*
+            reader.skip(reader.u32());
+            return;
+        case 0x41: case 0x42:                            // i32.const, i64.const
+            reader.leb();
+            return;
+        case 0x43:
+            reader.skip(4);
+            return;
+        case 0x44:
+            reader.skip(8);
+            return;
+        case 0xd0:                                       // ref.null
+            reader.leb();
+            return;
+        case 0xfc:
+            skipPrefixedImmediates(reader, reader.u32());
+            return;
+    }
+
+    if (opcode >= 0x28 && opcode <= 0x3e) {              // loads and stores: memarg
+        const align = reader.u32();
+        if (align & 0x40) reader.u32();                  // memory index (multi-memory)
+        reader.leb();
+        return;
+    }
+
+    throw new Error(`Unsupported instruction 0x${opcode.toString(16)}`);
+}
+
+function skipPrefixedImmediates(reader: Reader, op: number): void {
+    if (op <= 7) return;                                 // saturating truncation
+    switch (op) {
+        case 8: case 10: case 12: case 14:               // memory.init, memory.copy, table.init, table.copy
+            reader.u32();
+            reader.u32();
+            return;
+        case 9: case 11: case 13: case 15: case 16: case 17:
+            reader.u32();
+            return;
+    }
+    throw new Error(`Unsupported instruction 0xfc ${op}`);
+}
+
+/**
+ * Insert fuel charges into one function body: at entry for the instructions
+ * outside loops, and at the top of each loop for the instructions directly in it.
+ */
+function meterFunction(body: Uint8Array, fuelGlobal: number): Uint8Array {
+    const reader = new Reader(body);
+    for (let i = reader.u32(); i > 0; i--) {
+        reader.u32();
+        skipBlockType(reader);                           // local type
+    }
+
+    // Where each charge goes and how much it is; the first is the function entry
+    const charges = [{ pos: reader.pos, cost: 0 }];
+    // Charge index each open block accrues to; blocks and ifs share their parent's
+    const blocks = [0];
+
+    while (blocks.length > 0) {
+        const opcode = reader.byte();
+        charges[blocks[blocks.length - 1]].cost++;
+        skipImmediates(reader, opcode);
+
+        if (opcode === 0x02 || opcode === 0x04) {
+            blocks.push(blocks[blocks.length - 1]);
+        } else if (opcode === 0x03) {
+            charges.push({ pos: reader.pos, cost: 0 });
+            blocks.push(charges.length - 1);
+        } else if (opcode === 0x0b) {
+            blocks.pop();
+        }
+    }
+    if (!reader.done) throw new Error('Trailing bytes after function body');
+
+    const parts: ArrayLike<number>[] = [];
+    let last = 0;
+    for (const { pos, cost } of charges) {
+        parts.push(body.subarray(last, pos), chargeFuel(fuelGlobal, cost));
+        last = pos;
+    }
+    parts.push(body.subarray(last));
+    return concat(parts);
+}
+
+function meterCode(body: Uint8Array, fuelGlobal: number): Uint8Array {
+    const reader = new Reader(body);
+    const count = reader.u32();
+    const parts: ArrayLike<number>[] = [u32(count)];
+    for (let i = 0; i < count; i++) {
+        const metered = meterFunction(reader.slice(reader.u32()), fuelGlobal);
+        parts.push(u32(metered.length), metered);
+    }
+    return concat(parts);
+}
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+/**
+ * Return a metered copy of a module. Throws if the module can't be metered;
+ * the result still needs compiling, which validates it.
+ */
+export function instrumentModule(bytes: Uint8Array, options: MeteringOptions): Uint8Array {
+    const sections = readSections(bytes);
+    const find = (id: number) => sections.find(s => s.id === id);
+
+    const imports = find(SECTION.import);
+    const globals = find(SECTION.global);
+    const start = find(SECTION.start);
+    const importedGlobals = imports ? countImportedGlobals(imports.body) : 0;
+    const fuelGlobal = importedGlobals + (globals ? new Reader(globals.body).u32() : 0);
+
+    // The fuel global is appended, so existing global indices don't move
+    const fuelEntry = [0x7e, 0x01, 0x42, 0x00, 0x0b];   // mut i64 = 0
+    const exportEntries = [[...name(FUEL_EXPORT), 0x03, ...u32(fuelGlobal)]];
+    if (start) {
+        exportEntries.push([...name(START_EXPORT), 0x00, ...u32(new Reader(start.body).u32())]);
+    }
+
+    const out: Section[] = [];
+    for (const section of sections) {
+        switch (section.id) {
+            case SECTION.memory:
+                out.push({ id: section.id, body: capMemories(section.body, options.maxMemoryPages) });
+                break;
+            case SECTION.global:
+                out.push({ id: section.id, body: appendEntries(section.body, [fuelEntry]) });
+                break;
+            case SECTION.export:
+                out.push({ id: section.id, body: appendEntries(section.body, exportEntries) });
+                break;
+            case SECTION.start:
+                break;
+            case SECTION.code:
+                out.push({ id: section.id, body: meterCode(section.body, fuelGlobal) });
+                break;
+            default:
+                out.push(section);
+        }
+    }
+    if (!globals) insertSection(out, { id: SECTION.global, body: appendEntries(undefined, [fuelEntry]) });
+    if (!find(SECTION.export)) insertSection(out, { id: SECTION.export, body: appendEntries(undefined, exportEntries) });
+
+    return writeModule(out);
+}
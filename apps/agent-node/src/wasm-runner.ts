@@ -0,0 +1,336 @@
+// =============================================================================
+// TERMINUS AGENT NODE - WASM Runner
+// =============================================================================
+// Runs wasm runtime jobs: WASI command modules (exporting `_start`), metered for
+// fuel (see wasm-metering.ts) and with memory capped at NODE_WASM_MEMORY_MB. The
+// job input arrives as JSON on stdin; what the module writes to stdout is the
+// output (parsed if it is JSON), and stderr lines become logs. Modules get no
+// preopened directories, an empty environment and no network, and run in a
+// worker thread that is killed on timeout or cancellation. Agent memory is not
+// available to wasm jobs.
+//
+// Modules arrive by hash and are fetched from the control plane unless cached
+// (see artifacts.ts); older control planes send the bytes with every job. Metered
+// modules are kept in memory, up to METERED_CACHE_BYTES, least recently used evicted.
+// =============================================================================
+
+import { Worker } from 'worker_threads';
+import { hashContent } from '@terminus/protocol';
+import { cacheArtifact } from './artifact-cache.js';
+import { getArtifact } from './artifacts.js';
+import { FUEL_EXPORT, START_EXPORT, instrumentModule } from './wasm-metering.js';
+import { cancelledOutput, errorOutput, timeoutOutput, type RunnerInput, type RunnerOutput } from './runner.js';
+import { log } from './logger.js';
+
+const DEFAULT_TIMEOUT = 2000;
+const WASM_MEMORY_MB = parseInt(process.env.NODE_WASM_MEMORY_MB ?? '256', 10);
+const MAX_FUEL = parseInt(process.env.NODE_WASM_MAX_FUEL ?? '10000000000', 10);
+const MAX_OUTPUT_BYTES = 1024 * 1024;   // stdout and stderr combined
+const PAGES_PER_MB = 16;
+const METERED_CACHE_BYTES = 64 * 1024 * 1024;
+
+interface WasmTask {
+    module: Uint8Array;              // Metered module
+    fuel: number;
+    input: string;                   // JSON-encoded, served as stdin
+    maxOutputBytes: number;
+}
+
+// Worker → runner
+type WasmMessage =
+    | { type: 'log'; line: string }
+    | { type: 'done'; exitCode: number; stdout: string; fuelUsed: number; outOfFuel: boolean; trap?: string }
+    | { type: 'error'; code: string; message: string };
+
+/**
+ * Worker entry point (CommonJS). Serves stdin from the task and collects
+ * stdout/stderr through its own fd_read/fd_write; WASI's standard streams point
+ * at the null device so the module can't reach the node's.
+ */
+const WASM_WORKER_SOURCE = `'use strict';
+const { parentPort, workerData: task } = require('worker_threads');
+const { openSync } = require('fs');
+const { devNull } = require('os');
+const { WASI } = require('wasi');
+
+const post = message => parentPort.postMessage(message);
+const ERRNO_FAULT = 21;
+const ERRNO_FBIG = 22;
+
+const wasi = new WASI({
+  version: 'preview1',
+  args: ['agent'],
+  env: {},
+  stdin: openSync(devNull, 'r'),
+  stdout: openSync(devNull, 'w'),
+  stderr: openSync(devNull, 'w'),
+  returnOnExit: true,
+});
+const base = wasi.getImportObject().wasi_snapshot_preview1;
+
+let memory;
+const stdin = Buffer.from(task.input);
+let stdinPos = 0;
+const stdout = [];
+let written = 0;
+const decoder = new TextDecoder();
+let stderrLine = '';
+
+const iovecs = (iovs, count) => {
+  const view = new DataView(memory.buffer);
+  const chunks = [];
+  for (let i = 0; i < count; i++) {
+    chunks.push(new Uint8Array(memory.buffer, view.getUint32(iovs + i * 8, true), view.getUint32(iovs + i * 8 + 4, true)));
+  }
+  return chunks;
+};
+
+const writeStderr = text => {
+  const lines = (stderrLine + text).split('\\n');
+  stderrLine = lines.pop();
+  for (const line of lines) post({ type: 'log', line });
+};
+
+const fd_read = (fd, iovs, count, nreadPtr) => {
+  if (fd !== 0) return base.fd_read(fd, iovs, count, nreadPtr);
+  try {
+    let total = 0;
+    for (const chunk of iovecs(iovs, count)) {
+      const n = stdin.copy(chunk, 0, stdinPos);
+      stdinPos += n;
+      total += n;
+      if (n < chunk.length) break;
+    }
+    new DataView(memory.buffer).setUint32(nreadPtr, total, true);
+    return 0;
+  } catch {
+    return ERRNO_FAULT;
+  }
+};
+
+const fd_write = (fd, iovs, count, nwrittenPtr) => {
+  if (fd !== 1 && fd !== 2) return base.fd_write(fd, iovs, count, nwrittenPtr);
+  try {
+    const chunks = iovecs(iovs, count);
+    const size = chunks.reduce((n, c) => n + c.length, 0);
+    if (written + size > task.maxOutputBytes) return ERRNO_FBIG;
+    written += size;
+    for (const chunk of chunks) {
+      if (fd === 1) stdout.push(Buffer.from(chunk));
+      else writeStderr(decoder.decode(chunk, { stream: true }));
+    }
+    new DataView(memory.buffer).setUint32(nwrittenPtr, size, true);
+    return 0;
+  } catch {
+    return ERRNO_FAULT;
+  }
+};
+
+function run() {
+  let instance;
+  try {
+    instance = new WebAssembly.Instance(new WebAssembly.Module(task.module), {
+      wasi_snapshot_preview1: { ...base, fd_read, fd_write },
+    });
+  } catch (error) {
+    post({ type: 'error', code: 'INVALID_MODULE', message: String(error?.message ?? error) });
+    return;
+  }
+  if (typeof instance.exports._start !== 'function' || !(instance.exports.memory instanceof WebAssembly.Memory)) {
+    post({ type: 'error', code: 'INVALID_MODULE', message: 'Not a WASI command module (needs _start and memory exports)' });
+    return;
+  }
+  memory = instance.exports.memory;
+
+  const fuel = instance.exports.${FUEL_EXPORT};
+  fuel.value = BigInt(task.fuel);
+  let exitCode = 0;
+  let trap;
+  try {
+    instance.exports.${START_EXPORT}?.();
+    exitCode = wasi.start(instance);
+  } catch (error) {
+    trap = String(error?.message ?? error);
+  }
+  if (stderrLine) post({ type: 'log', line: stderrLine });
+
+  const remaining = fuel.value;
+  post({
+    type: 'done',
+    exitCode,
+    stdout: Buffer.concat(stdout).toString('utf-8'),
+    fuelUsed: Number(BigInt(task.fuel) - (remaining > 0n ? remaining : 0n)),
+    outOfFuel: remaining < 0n,
+    trap,
+  });
+}
+
+run();
+`;
+
+// Metered modules by hash, least recently used first; metering is deterministic,
+// so a module is rewritten again only after it has been evicted
+const meteredModules = new Map<string, Uint8Array>();
+let meteredBytes = 0;
+
+function getMetered(hash: string): Uint8Array | undefined {
+    const metered = meteredModules.get(hash);
+    if (metered) {
+        meteredModules.delete(hash);
+        meteredModules.set(hash, metered);
+    }
+    return metered;
+}
+
+function cacheMetered(hash: string, metered: Uint8Array): void {
+    if (metered.byteLength > METERED_CACHE_BYTES || meteredModules.has(hash)) return;
+    meteredModules.set(hash, metered);
+    meteredBytes += metered.byteLength;
+    for (const [oldest, bytes] of meteredModules) {
+        if (meteredBytes <= METERED_CACHE_BYTES) break;
+        meteredModules.delete(oldest);
+        meteredBytes -= bytes.byteLength;
+    }
+}
+
+/**
+ * The job's module bytes: sent along with the job (verified and cached), or
+ * from the cache or control plane. Returns an error if it can't be had.
+ */
+async function resolveModule(wasm: NonNullable<RunnerInput['wasm']>): Promise<Uint8Array | { code: string; message: string }> {
+    if (!wasm.module) {
+        try {
+            return await getArtifact(wasm.hash);
+        } catch (error) {
+            return { code: 'ARTIFACT_UNAVAILABLE', message: `Can't load module ${wasm.hash}: ${(error as Error).message}` };
+        }
+    }
+
+    const bytes = Buffer.from(wasm.module, 'base64');
+    if (hashContent(bytes) !== wasm.hash) {
+        return { code: 'MODULE_HASH_MISMATCH', message: `Module bytes don't match hash ${wasm.hash}` };
+    }
+    try {
+        cacheArtifact(wasm.hash, bytes);
+    } catch (error) {
+        log('warn', 'Artifacts', `⚠️ Failed to cache module ${wasm.hash.slice(0, 12)}: ${(error as Error).message}`);
+    }
+    return bytes;
+}
+
+function parseOutput(stdout: string): unknown {
+    const text = stdout.trim();
+    if (!text) return undefined;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+export async function runWasmAgent(runnerInput: RunnerInput): Promise<RunnerOutput> {
+    const { input, timeout = DEFAULT_TIMEOUT, wasm, tools = [], signal, onLog } = runnerInput;
+    const logs: string[] = [];
+    const capture = (line: string) => {
+        logs.push(line);
+        onLog?.(line);
+    };
+    const startTime = Date.now();
+
+    if (signal?.aborted) {
+        return cancelledOutput(logs, startTime, signal.reason);
+    }
+    if (!wasm) {
+        return errorOutput(logs, startTime, 'NO_MODULE', 'WASM jobs need a module');
+    }
+    if (tools.length > 0) {
+        capture('[SYSTEM] Tools are not available to wasm modules');
+    }
+
+    let metered = getMetered(wasm.hash);
+    if (!metered) {
+        const bytes = await resolveModule(wasm);
+        if (signal?.aborted) {
+            return cancelledOutput(logs, startTime, signal.reason);
+        }
+        if (!(bytes instanceof Uint8Array)) {
+            return errorOutput(logs, startTime, bytes.code, bytes.message);
+        }
+        try {
+            metered = instrumentModule(bytes, { maxMemoryPages: WASM_MEMORY_MB * PAGES_PER_MB });
+        } catch (error) {
+            return errorOutput(logs, startTime, 'INVALID_MODULE', `Can't meter module: ${(error as Error).message}`);
+        }
+        cacheMetered(wasm.hash, metered);
+    }
+
+    const fuel = Math.min(wasm.fuel, MAX_FUEL);
+    const task: WasmTask = { module: metered, fuel, input: JSON.stringify(input ?? null), maxOutputBytes: MAX_OUTPUT_BYTES };
+
+    return new Promise(resolve => {
+        // Wasm memory lives outside the JS heap; the metered module's memory limit bounds it
+        const worker = new Worker(WASM_WORKER_SOURCE, {
+            eval: true,
+            workerData: task,
+            resourceLimits: { maxOldGenerationSizeMb: 64, stackSizeMb: 4 },
+            env: {},
+        });
+
+        let settled = false;
+        const finish = (outcome: () => RunnerOutput) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(killTimer);
+            signal?.removeEventListener('abort', onAbort);
+            void worker.terminate();
+            resolve(outcome());
+        };
+
+        const killTimer = setTimeout(() => finish(() => timeoutOutput(logs, startTime, timeout)), timeout);
+
+        const onAbort = () => finish(() => cancelledOutput(logs, startTime, signal?.reason));
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        worker.on('message', (message: WasmMessage) => {
+            switch (message.type) {
+                case 'log':
+                    capture(message.line);
+                    break;
+                case 'done':
+                    // Fuel is reported for failed runs too: the work was done either way
+                    finish(() => {
+                        let output: RunnerOutput;
+                        if (message.outOfFuel) {
+                            output = errorOutput(logs, startTime, 'OUT_OF_FUEL', `Exceeded fuel budget of ${fuel}`);
+                        } else if (message.trap) {
+                            output = errorOutput(logs, startTime, 'EXECUTION_ERROR', `Module trapped: ${message.trap}`);
+                        } else if (message.exitCode !== 0) {
+                            output = errorOutput(logs, startTime, 'EXECUTION_ERROR', `Module exited with code ${message.exitCode}`);
+                        } else {
+                            const endTime = Date.now();
+                            output = {
+                                status: 'SUCCESS',
+                                output: parseOutput(message.stdout),
+                                logs,
+                                metrics: { startTime, endTime, durationMs: endTime - startTime },
+                            };
+                        }
+                        output.metrics.fuelUsed = message.fuelUsed;
+                        return output;
+                    });
+                    break;
+                case 'error':
+                    finish(() => errorOutput(logs, startTime, message.code, message.message));
+                    break;
+            }
+        });
+
+        worker.on('error', err => {
+            finish(() => errorOutput(logs, startTime, 'EXECUTION_ERROR', err.message, err.stack));
+        });
+
+        worker.on('exit', code => {
+            finish(() => errorOutput(logs, startTime, 'SANDBOX_EXITED', `WASM worker exited unexpectedly (code ${code})`));
+        });
+    });
+}
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import os from 'os';
+import { hashContent } from '@terminus/protocol';
+
+const cacheDir = mkdtempSync(join(os.tmpdir(), 'terminus-test-'));
+process.env.NODE_ARTIFACT_CACHE_DIR = cacheDir;
+process.env.NODE_ARTIFACT_CACHE_MB = '1';
+const { cacheArtifact, loadArtifact } = await import('../src/artifact-cache.js');
+
+function bytes(fill: number, size = 400 * 1024): Uint8Array {
+    return new Uint8Array(size).fill(fill);
+}
+
+test('cached artifacts load back by hash', () => {
+    const content = new TextEncoder().encode('return 1;');
+    const hash = hashContent(content);
+    cacheArtifact(hash, content);
+    assert.deepEqual(loadArtifact(hash), Buffer.from(content));
+});
+
+test('bytes that do not match their hash are refused', () => {
+    const hash = hashContent('expected');
+    assert.throws(() => cacheArtifact(hash, new TextEncoder().encode('tampered')), /hash mismatch/);
+    assert.equal(existsSync(join(cacheDir, hash)), false);
+});
+
+test('a cached file altered on disk is dropped instead of loaded', () => {
+    const content = new TextEncoder().encode('return 2;');
+    const hash = hashContent(content);
+    cacheArtifact(hash, content);
+    writeFileSync(join(cacheDir, hash), 'return evil();');
+
+    assert.equal(loadArtifact(hash), undefined);
+    assert.equal(existsSync(join(cacheDir, hash)), false);
+});
+
+test('the least recently used artifacts are evicted past the size limit', async () => {
+    const [a, b, c] = [bytes(1), bytes(2), bytes(3)];
+    const [hashA, hashB, hashC] = [a, b, c].map(hashContent);
+
+    cacheArtifact(hashA, a);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    cacheArtifact(hashB, b);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.ok(loadArtifact(hashA));    // A is now more recently used than B
+    await new Promise(resolve => setTimeout(resolve, 20));
+    cacheArtifact(hashC, c);
+
+    assert.equal(existsSync(join(cacheDir, hashB)), false);
+    assert.equal(existsSync(join(cacheDir, hashA)), true);
+    assert.equal(existsSync(join(cacheDir, hashC)), true);
+});
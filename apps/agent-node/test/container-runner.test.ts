@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, symlinkSync, writeFileSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { join } from 'path';
+import os from 'os';
+import { readJson } from '../src/container-runner.js';
+
+test('result files are read only when they are small regular files', () => {
+    const dir = mkdtempSync(join(os.tmpdir(), 'terminus-test-'));
+    const secret = join(dir, 'secret.json');
+    writeFileSync(secret, '{"key":"node secret"}');
+
+    assert.equal(readJson(join(dir, 'missing.json')), undefined);
+
+    writeFileSync(join(dir, 'output.json'), '{"answer":42}');
+    assert.deepEqual(readJson(join(dir, 'output.json')), { answer: 42 });
+
+    symlinkSync(secret, join(dir, 'linked.json'));
+    assert.throws(() => readJson(join(dir, 'linked.json')), /is a symlink/);
+
+    execFileSync('mkfifo', [join(dir, 'fifo.json')]);
+    assert.throws(() => readJson(join(dir, 'fifo.json')), /not a regular file/);
+
+    writeFileSync(join(dir, 'large.json'), JSON.stringify('x'.repeat(2 * 1024 * 1024)));
+    assert.throws(() => readJson(join(dir, 'large.json')), /exceeds/);
+});
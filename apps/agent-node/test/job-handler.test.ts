@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createBaseMessage, type JobAssignMessage, type JobCancelMessage } from '@terminus/protocol';
+import { setNodeInfo } from '../src/connection.js';
+import { registerTool } from '../src/tools.js';
+import { handleJobAssign, handleJobCancel } from '../src/job-handler.js';
+
+setNodeInfo('node-test', [], { os: 'linux', arch: 'x64', cpuCores: 1, totalMemoryGB: 1, nodeVersion: process.version }, 1, []);
+
+// 'block' runs until released; 'record' notes every call
+let release: () => void = () => { };
+const calls: string[] = [];
+registerTool({
+    manifest: { name: 'block', description: 'Wait until released', parameters: { type: 'object' } },
+    execute: () => new Promise(resolve => { release = () => resolve({ success: true, output: null }); }),
+});
+registerTool({
+    manifest: { name: 'record', description: 'Record a call', parameters: { type: 'object' } },
+    execute: async (params: { id: string }) => {
+        calls.push(params.id);
+        return { success: true, output: null };
+    },
+});
+
+function assign(jobId: string, runId: string, tool: string, params: Record<string, unknown> = {}): JobAssignMessage {
+    return {
+        ...createBaseMessage('JOB_ASSIGN'),
+        type: 'JOB_ASSIGN',
+        payload: { jobId, runId, agentId: 'agent', input: {}, timeout: 5000, toolCall: { tool, params } },
+    };
+}
+
+function cancel(jobId: string, runId?: string): JobCancelMessage {
+    return {
+        ...createBaseMessage('JOB_CANCEL'),
+        type: 'JOB_CANCEL',
+        payload: { jobId, ...(runId && { runId }), reason: 'REQUESTED' },
+    };
+}
+
+test('cancelling one attempt leaves a retry of the same job alone', async () => {
+    const first = handleJobAssign(assign('job-1', 'run-1', 'block'));
+    const retry = handleJobAssign(assign('job-1', 'run-2', 'record', { id: 'run-2' }));
+
+    handleJobCancel(cancel('job-1', 'run-1'));
+    await first;
+    await retry;
+    release();
+
+    assert.deepEqual(calls, ['run-2']);
+});
+
+test('a job cancelled while waiting for a slot never runs', async () => {
+    calls.length = 0;
+    const busy = handleJobAssign(assign('job-2', 'run-3', 'block'));
+    const waiting = handleJobAssign(assign('job-3', 'run-4', 'record', { id: 'run-4' }));
+
+    handleJobCancel(cancel('job-3', 'run-4'));
+    await waiting;
+    release();
+    await busy;
+
+    assert.deepEqual(calls, []);
+});
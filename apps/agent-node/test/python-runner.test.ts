@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+process.env.NODE_PYTHON_SANDBOX = 'terminus-missing-sandbox';
+delete process.env.NODE_PYTHON_UNSANDBOXED;
+const { detectPythonRuntime, parseHarnessMessage, runPythonAgent } = await import('../src/python-runner.js');
+
+test('python stays off when the sandbox is unavailable and the operator has not opted out', async () => {
+    assert.equal(await detectPythonRuntime(), false);
+
+    const result = await runPythonAgent({ jobId: 'job-1', runId: 'run-1', agentId: 'agent', input: 1, script: 'input' });
+    assert.equal(result.status, 'ERROR');
+    assert.equal(result.error?.code, 'RUNTIME_UNAVAILABLE');
+});
+
+test('only well-formed harness messages are parsed; other stdout lines stay plain output', () => {
+    assert.deepEqual(parseHarnessMessage('{"type":"log","line":"hi"}'), { type: 'log', line: 'hi' });
+    assert.deepEqual(parseHarnessMessage('{"type":"result","output":1,"memory":{}}'), { type: 'result', output: 1, memory: {} });
+    assert.deepEqual(parseHarnessMessage('{"type":"error","message":"boom"}'), { type: 'error', code: undefined, message: 'boom', stack: undefined });
+
+    for (const line of ['null', '42', '"log"', '[]', 'not json', '{"type":"log"}', '{"type":"log","line":5}',
+        '{"type":"result","output":1}', '{"type":"error","message":"x","code":7}', '{"type":"exit"}']) {
+        assert.equal(parseHarnessMessage(line), null, line);
+    }
+});
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runAgent } from '../src/runner.js';
+
+function run(script: string, input: unknown = null) {
+    return runAgent({ jobId: 'job-1', runId: 'run-1', agentId: 'agent', input, script, timeout: 5000 });
+}
+
+test('scripts return their output, sync or async', async () => {
+    assert.equal((await run('input * 2', 21)).output, 42);
+    assert.equal((await run('await Promise.resolve(1); return input + 1;', 1)).output, 2);
+});
+
+test('a script-supplied thenable only receives functions from the sandbox realm', async () => {
+    const result = await run(`({
+        then(resolve) {
+            try {
+                resolve(typeof resolve.constructor('return process')());
+            } catch (error) {
+                resolve(resolve instanceof Function ? 'sandboxed' : 'leaked');
+            }
+        },
+    })`);
+    assert.equal(result.status, 'SUCCESS');
+    assert.equal(result.output, 'sandboxed');
+});
+
+test('a thenable settling more than once reports only the first outcome', async () => {
+    const result = await run('({ then(resolve, reject) { resolve(1); reject(new Error("late")); resolve(2); } })');
+    assert.equal(result.status, 'SUCCESS');
+    assert.equal(result.output, 1);
+});
+
+test('thrown values of any kind become error results', async () => {
+    const thrown = await run('throw new Error("boom")');
+    assert.equal(thrown.status, 'ERROR');
+    assert.match(thrown.error?.message ?? '', /boom/);
+
+    const rejected = await run('Promise.reject("plain string")');
+    assert.equal(rejected.status, 'ERROR');
+    assert.match(rejected.error?.message ?? '', /plain string/);
+
+    const hostile = await run('throw { get message() { throw new Error("no"); } }');
+    assert.equal(hostile.status, 'ERROR');
+    assert.match(hostile.error?.message ?? '', /cannot be described/);
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, symlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import os from 'os';
+
+process.env.NODE_SCRATCH_DIR = mkdtempSync(join(os.tmpdir(), 'terminus-test-'));
+process.env.NODE_SCRATCH_QUOTA_MB = '1';
+const scratch = await import('../src/scratch.js');
+
+test('scratch directories are created per run with an artifacts/ directory', () => {
+    const dir = scratch.createScratch('run/../1');
+    assert.ok(dir.startsWith(process.env.NODE_SCRATCH_DIR!));
+    assert.deepEqual(scratch.listScratchDir(dir), ['artifacts/']);
+    scratch.removeScratch(dir);
+    assert.equal(existsSync(dir), false);
+});
+
+test('paths outside the scratch directory are refused', () => {
+    const dir = scratch.createScratch('run-2');
+    for (const path of ['../escape.txt', '/etc/passwd', 'a/../../escape.txt']) {
+        assert.throws(() => scratch.writeScratchFile(dir, path, Buffer.from('x')), /escapes the scratch directory/);
+        assert.throws(() => scratch.readScratchFile(dir, path), /escapes the scratch directory/);
+    }
+    assert.throws(() => scratch.listScratchDir(dir, '..'), /escapes the scratch directory/);
+
+    scratch.writeScratchFile(dir, 'nested/dir/../ok.txt', Buffer.from('ok'));
+    assert.equal(scratch.readScratchFile(dir, 'nested/ok.txt').toString(), 'ok');
+    scratch.removeScratch(dir);
+});
+
+test('writes that would exceed the quota are refused; overwrites count once', () => {
+    const dir = scratch.createScratch('run-3');
+    const half = Buffer.alloc(scratch.SCRATCH_QUOTA_BYTES / 2);
+
+    scratch.writeScratchFile(dir, 'a.bin', half);
+    scratch.writeScratchFile(dir, 'a.bin', half);
+    scratch.writeScratchFile(dir, 'b.bin', half);
+    assert.equal(scratch.scratchUsage(dir), scratch.SCRATCH_QUOTA_BYTES);
+    assert.throws(() => scratch.writeScratchFile(dir, 'c.bin', Buffer.from('x')), /quota/);
+    scratch.removeScratch(dir);
+});
+
+test('only regular files with valid names are collected as artifacts', () => {
+    const dir = scratch.createScratch('run-4');
+    const artifactsDir = join(dir, scratch.ARTIFACTS_DIR);
+    writeFileSync(join(artifactsDir, 'report.json'), '{}');
+    writeFileSync(join(artifactsDir, '.hidden'), 'x');
+    mkdirSync(join(artifactsDir, 'subdir'));
+    symlinkSync('/etc/passwd', join(artifactsDir, 'passwd'));
+
+    const skipped: string[] = [];
+    const artifacts = scratch.collectArtifacts(dir, (name, reason) => skipped.push(`${name}: ${reason}`));
+
+    assert.deepEqual(artifacts.map(a => [a.name, a.contentType, a.content.toString()]), [['report.json', 'application/json', '{}']]);
+    assert.deepEqual(skipped, ['.hidden: invalid name', 'passwd: not a regular file', 'subdir: not a regular file']);
+    scratch.removeScratch(dir);
+});
+
+test('watchScratchQuota reports a job that goes over the quota while it runs', async () => {
+    const dir = scratch.createScratch('run-5');
+    const exceeded = new Promise<number>(resolve => {
+        const stop = scratch.watchScratchQuota(dir, usage => {
+            stop();
+            resolve(usage);
+        });
+    });
+
+    writeFileSync(join(dir, 'big.bin'), Buffer.alloc(scratch.SCRATCH_QUOTA_BYTES + 1));
+    assert.equal(await exceeded, scratch.SCRATCH_QUOTA_BYTES + 1);
+    scratch.removeScratch(dir);
+});
+
+test('scratchUsage tolerates a directory that is already gone', () => {
+    const dir = scratch.createScratch('run-6');
+    scratch.removeScratch(dir);
+    assert.equal(scratch.scratchUsage(dir), 0);
+});
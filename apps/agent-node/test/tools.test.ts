@@ -0,0 +1,17 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runShellCommand } from '../src/tools.js';
+
+test('runShellCommand runs allowlisted commands without a shell', async () => {
+    const result = await runShellCommand('echo $(whoami) && id; `id`');
+    assert.ok(result.success);
+    assert.deepEqual(result.output, { stdout: '$(whoami) && id; `id`', stderr: '' });
+});
+
+test('runShellCommand refuses other commands and disallowed arguments', async () => {
+    for (const command of ['cat /etc/passwd', 'echo-evil', 'date -f /etc/passwd', 'whoami --help', 'uname ; id', 'constructor']) {
+        const result = await runShellCommand(command);
+        assert.equal(result.success, false, command);
+        assert.equal(result.error, 'Command not in allowlist');
+    }
+});
@@ -0,0 +1,183 @@
+// =============================================================================
+// TERMINUS CONTROL PLANE - Agent Jobs
+// =============================================================================
+// Distributed agent execution: AGENT_JOB requests sent to nodes running the
+// agent type, kept pending until the node's AGENT_JOB_RESULT, a timeout, a
+// cancellation or the node going away settles them.
+// =============================================================================
+
+import {
+    type AgentJobMessage,
+    type AgentJobResultMessage,
+    serializeMessage,
+    createBaseMessage,
+} from '@terminus/protocol';
+import { nodeRegistry } from './registry.js';
+import { logger } from './logger.js';
+import { sendJobCancel } from './dispatcher.js';
+import { openJobEvents, endJobEvents } from './job-events.js';
+import { recordJobComplete } from './monitor.js';
+import { markRunSettled, isRunSettled } from './sessions.js';
+
+type AgentJobOutcome = Pick<AgentJobResultMessage['payload'], 'success' | 'response' | 'toolsUsed' | 'metrics'>;
+
+interface PendingAgentJob {
+    jobId: string;
+    agentType: string;
+    nodeId: string;
+    resolve: (result: AgentJobOutcome) => void;
+    reject: (error: Error) => void;
+    timeout: NodeJS.Timeout;
+}
+
+const pendingAgentJobs = new Map<string, PendingAgentJob>();
+
+// =============================================================================
+// Dispatch
+// =============================================================================
+
+export function dispatchAgentJob(
+    agentType: string,
+    userQuery: string,
+    timeoutMs: number = 60000
+): Promise<AgentJobOutcome> {
+    return new Promise((resolve, reject) => {
+        // Find a node that can run this agent type
+        const node = nodeRegistry.getAvailableNodeForAgent(agentType);
+
+        if (!node) {
+            // No remote node available
+            reject(new Error(`No node available for agent: ${agentType}`));
+            return;
+        }
+
+        const socket = nodeRegistry.getSocket(node.nodeId);
+        if (!socket) {
+            reject(new Error(`No socket for node: ${node.nodeId}`));
+            return;
+        }
+
+        const jobId = `agent-job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+        // Set timeout
+        const timeout = setTimeout(() => {
+            pendingAgentJobs.delete(jobId);
+            endJobEvents(jobId);
+            sendJobCancel(node.nodeId, jobId, jobId, 'TIMEOUT');
+            nodeRegistry.releaseSlot(node.nodeId);
+            recordJobComplete(node.nodeId, false);
+            reject(new Error(`Agent job timed out: ${jobId}`));
+        }, timeoutMs);
+
+        // Store pending job
+        pendingAgentJobs.set(jobId, {
+            jobId,
+            agentType,
+            nodeId: node.nodeId,
+            resolve,
+            reject,
+            timeout,
+        });
+
+        // Send job to node
+        const message: AgentJobMessage = {
+            ...createBaseMessage('AGENT_JOB'),
+            type: 'AGENT_JOB',
+            payload: {
+                jobId,
+                agentType,
+                userQuery,
+            },
+        };
+
+        openJobEvents(jobId);
+        socket.send(serializeMessage(message));
+        nodeRegistry.reserveSlot(node.nodeId);
+        nodeRegistry.recordAssignment(node.nodeId);
+        logger.info('AgentDispatch', `📤 Job ${jobId} sent to ${node.nodeId} for ${agentType}`);
+    });
+}
+
+// =============================================================================
+// Settlement
+// =============================================================================
+
+/**
+ * Cancel a pending agent job by ID. Returns false if no such job is in flight.
+ */
+export function cancelAgentJob(jobId: string): boolean {
+    const pending = pendingAgentJobs.get(jobId);
+    if (!pending) return false;
+
+    clearTimeout(pending.timeout);
+    pendingAgentJobs.delete(jobId);
+    endJobEvents(jobId);
+    sendJobCancel(pending.nodeId, jobId, jobId, 'REQUESTED');
+    nodeRegistry.releaseSlot(pending.nodeId);
+    pending.reject(new Error('Agent job cancelled'));
+    return true;
+}
+
+/**
+ * Fail agent jobs in flight on a node that went away. Returns the failed job IDs.
+ */
+export function failNodeAgentJobs(nodeId: string, reason: string): string[] {
+    const lost = Array.from(pendingAgentJobs.values()).filter(j => j.nodeId === nodeId);
+
+    for (const pending of lost) {
+        clearTimeout(pending.timeout);
+        pendingAgentJobs.delete(pending.jobId);
+        endJobEvents(pending.jobId);
+        nodeRegistry.releaseSlot(nodeId);
+        recordJobComplete(nodeId, false);
+        pending.reject(new Error(reason));
+    }
+
+    return lost.map(j => j.jobId);
+}
+
+/**
+ * The node an agent job is in flight on, if it is one.
+ */
+export function getAgentJobNode(jobId: string): string | undefined {
+    return pendingAgentJobs.get(jobId)?.nodeId;
+}
+
+/**
+ * Settle an agent job. Returns false if it is in flight on a different node,
+ * in which case the result is dropped unacknowledged.
+ */
+export function handleAgentJobResult(nodeId: string, message: AgentJobResultMessage): boolean {
+    const { jobId, success, response, error } = message.payload;
+
+    const pending = pendingAgentJobs.get(jobId);
+    if (!pending) {
+        if (isRunSettled(jobId)) {
+            logger.info('AgentDispatch', `♻️ Ignoring duplicate result: ${jobId}`);
+        } else {
+            logger.warn('AgentDispatch', `❓ Unknown job result: ${jobId}`);
+        }
+        return true;
+    }
+    if (pending.nodeId !== nodeId) {
+        logger.warn('AgentDispatch', `⛔ ${nodeId} sent a result for ${jobId}, which is assigned to ${pending.nodeId}; dropped`);
+        return false;
+    }
+
+    clearTimeout(pending.timeout);
+    pendingAgentJobs.delete(jobId);
+    markRunSettled(jobId);
+    endJobEvents(jobId);
+    nodeRegistry.releaseSlot(pending.nodeId);
+    recordJobComplete(pending.nodeId, success);
+
+    if (success) {
+        const tokens = message.payload.metrics?.llmTokensUsed;
+        logger.info('AgentDispatch', `✅ Job ${jobId} completed${tokens !== undefined ? ` (${tokens} LLM tokens)` : ''}`);
+        pending.resolve({ success: true, response, toolsUsed: message.payload.toolsUsed, metrics: message.payload.metrics });
+    } else {
+        logger.error('AgentDispatch', `❌ Job ${jobId} failed: ${error?.message}`);
+        pending.reject(new Error(error?.message || 'Agent job failed'));
+    }
+    return true;
+}
@@ -3,6 +3,7 @@
 // =============================================================================
 
 import type { IncomingMessage, ServerResponse } from 'http';
+import { ContainerSpecSchema, JobRuntimeSchema, WasmSpecSchema } from '@terminus/protocol';
 import {
     createAgent,
     getAgent,
@@ -11,6 +12,7 @@ import {
     deleteAgent,
     type Agent,
 } from './agent-store.js';
+import { getArtifactInfo } from './artifact-store.js';
 import { logger } from './logger.js';
 
 function sendJson(res: ServerResponse, status: number, data: unknown): void {
@@ -34,6 +36,42 @@ async function parseBody(req: IncomingMessage): Promise<unknown> {
     });
 }
 
+/**
+ * Validate the optional execution fields of an agent create/update, merged over
+ * the existing agent for updates. Returns an error message.
+ */
+function validateAgentFields(body: Partial<Agent>, existing?: Agent): string | null {
+    const { tools, runtime, container, wasm } = body;
+    if (tools !== undefined && !(Array.isArray(tools) && tools.every(t => typeof t === 'string' && t.length > 0))) {
+        return '"tools" must be an array of tool names';
+    }
+    if (runtime !== undefined && !JobRuntimeSchema.safeParse(runtime).success) {
+        return `Invalid "runtime" (expected one of ${JobRuntimeSchema.options.join(', ')})`;
+    }
+    if (container !== undefined) {
+        const result = ContainerSpecSchema.safeParse(container);
+        if (!result.success) {
+            return `Invalid "container": ${result.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ')}`;
+        }
+    }
+    if ((runtime ?? existing?.runtime) === 'container' && !(container ?? existing?.container)) {
+        return 'Container agents need a "container" spec with an image';
+    }
+    if (wasm !== undefined) {
+        const result = WasmSpecSchema.safeParse(wasm);
+        if (!result.success) {
+            return `Invalid "wasm": ${result.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ')}`;
+        }
+        if (!getArtifactInfo(wasm.hash, 'wasm')) {
+            return `Unknown wasm module ${wasm.hash} (upload it to /api/modules first)`;
+        }
+    }
+    if ((runtime ?? existing?.runtime) === 'wasm' && !(wasm ?? existing?.wasm)) {
+        return 'WASM agents need a "wasm" spec with a module hash';
+    }
+    return null;
+}
+
 // =============================================================================
 // Route Handler
 // =============================================================================
@@ -55,17 +93,27 @@ export async function handleAgentRoutes(
         try {
             const body = await parseBody(req) as Partial<Agent>;
 
-            if (!body.name || !body.script) {
+            // Container and wasm agents run their image or module instead of a script
+            if (!body.name || (!body.script && body.runtime !== 'container' && body.runtime !== 'wasm')) {
                 sendError(res, 400, 'Missing required fields: name, script');
                 return true;
             }
+            const invalid = validateAgentFields(body);
+            if (invalid) {
+                sendError(res, 400, invalid);
+                return true;
+            }
 
             const agent = createAgent({
                 name: body.name,
                 description: body.description ?? '',
                 systemPrompt: body.systemPrompt ?? '',
-                script: body.script,
+                script: body.script ?? '',
+                runtime: body.runtime ?? 'javascript',
+                container: body.container,
+                wasm: body.wasm,
                 capabilities: body.capabilities ?? [],
+                tools: body.tools ?? [],
             });
 
             logger.info('Agents', `📦 Created agent: ${agent.name} (${agent.id})`);
@@ -93,6 +141,11 @@ export async function handleAgentRoutes(
     if (singleMatch && req.method === 'PATCH') {
         try {
             const body = await parseBody(req) as Partial<Agent>;
+            const invalid = validateAgentFields(body, getAgent(singleMatch[1]));
+            if (invalid) {
+                sendError(res, 400, invalid);
+                return true;
+            }
             const agent = updateAgent(singleMatch[1], body);
             if (!agent) {
                 sendError(res, 404, 'Agent not found');
@@ -1,10 +1,13 @@
 // =============================================================================
 // TERMINUS CONTROL PLANE - Agent Store
 // =============================================================================
-// In-memory storage for agents and their state.
+// In-memory storage for agents and their state. Scripts are also stored as
+// artifacts, so each version stays addressable by its hash.
 // =============================================================================
 
 import { randomUUID } from 'crypto';
+import type { ContainerSpec, JobRuntime, WasmSpec } from '@terminus/protocol';
+import { storeArtifact } from './artifact-store.js';
 
 export interface Agent {
     id: string;
@@ -12,7 +15,12 @@ export interface Agent {
     description: string;
     systemPrompt: string;
     script: string;
+    scriptHash?: string;             // Content hash of script (unset when empty)
+    runtime: JobRuntime;             // Language the script is written in
+    container?: ContainerSpec;       // Image to run instead of a script (container runtime)
+    wasm?: WasmSpec;                 // Module to run instead of a script (wasm runtime)
     capabilities: string[];
+    tools: string[];                 // Node tools the script may call (tools.<name>)
     createdAt: number;
     updatedAt: number;
 }
@@ -31,10 +39,15 @@ const agentStates = new Map<string, AgentState>();
 // Agent CRUD
 // =============================================================================
 
-export function createAgent(data: Omit<Agent, 'id' | 'createdAt' | 'updatedAt'>): Agent {
+function hashScript(script: string): string | undefined {
+    return script ? storeArtifact('script', script).hash : undefined;
+}
+
+export function createAgent(data: Omit<Agent, 'id' | 'scriptHash' | 'createdAt' | 'updatedAt'>): Agent {
     const agent: Agent = {
         id: `agent-${randomUUID().slice(0, 8)}`,
         ...data,
+        scriptHash: hashScript(data.script),
         createdAt: Date.now(),
         updatedAt: Date.now(),
     };
@@ -55,6 +68,7 @@ export function updateAgent(id: string, data: Partial<Agent>): Agent | undefined
     if (!agent) return undefined;
 
     const updated = { ...agent, ...data, updatedAt: Date.now() };
+    updated.scriptHash = hashScript(updated.script);
     agents.set(id, updated);
     return updated;
 }
@@ -120,5 +134,7 @@ createAgent({
     description: 'Tracks places you have visited',
     systemPrompt: 'You are a friendly travel assistant that remembers places.',
     script: DEFAULT_SCRIPT,
+    runtime: 'javascript',
     capabilities: ['travel-planner'],
+    tools: [],
 });
@@ -0,0 +1,127 @@
+// =============================================================================
+// TERMINUS CONTROL PLANE - Artifact Store
+// =============================================================================
+// Content-addressed storage for the code jobs run (agent scripts and wasm
+// modules) and the files they return. Artifacts are kept on disk as data/artifacts/<sha256>.<kind> and
+// referenced by hash and kind, so every version of an agent's code stays available and
+// a run's codeHash says exactly what it executed. Nodes fetch artifacts by
+// hash (FETCH_ARTIFACT) for the jobs assigned to them; returned files are
+// listed on their run (GET /api/jobs/:id/artifacts).
+// =============================================================================
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { hashContent } from '@terminus/protocol';
+import { config } from '@terminus/config';
+import { logger } from './logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ArtifactKind = 'script' | 'wasm' | 'file';
+
+export interface ArtifactInfo {
+    hash: string;
+    kind: ArtifactKind;
+    size: number;
+    storedAt: number;
+}
+
+// =============================================================================
+// File Persistence
+// =============================================================================
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ARTIFACTS_DIR = join(config.storage.dataDir ?? join(__dirname, '..', 'data'), 'artifacts');
+
+// Keyed by `${hash}.${kind}`: the same bytes stored as two kinds are two artifacts
+const artifacts = new Map<string, ArtifactInfo>();
+
+// Magic number and binary format version 1; nodes validate the rest when they compile it
+const WASM_HEADER = Buffer.from([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]);
+
+function artifactKey(hash: string, kind: ArtifactKind): string {
+    return `${hash}.${kind}`;
+}
+
+function artifactPath(info: Pick<ArtifactInfo, 'hash' | 'kind'>): string {
+    return join(ARTIFACTS_DIR, artifactKey(info.hash, info.kind));
+}
+
+function loadArtifacts(): void {
+    if (!existsSync(ARTIFACTS_DIR)) return;
+
+    try {
+        for (const file of readdirSync(ARTIFACTS_DIR)) {
+            const match = /^([0-9a-f]{64})\.(script|wasm|file)$/.exec(file);
+            if (!match) continue;
+            const stats = statSync(join(ARTIFACTS_DIR, file));
+            artifacts.set(file, { hash: match[1], kind: match[2] as ArtifactKind, size: stats.size, storedAt: stats.mtimeMs });
+        }
+        logger.info('Persistence', `📂 Loaded ${artifacts.size} artifacts from disk`);
+    } catch (error) {
+        logger.error('Persistence', `❌ Failed to load artifacts: ${(error as Error).message}`);
+    }
+}
+
+// Load on module init
+loadArtifacts();
+
+// =============================================================================
+// Artifacts
+// =============================================================================
+
+/**
+ * Store an artifact and return its info. Storing the same content again is a no-op.
+ * Throws if it exceeds the size limit or, for wasm, isn't a WebAssembly module.
+ */
+export function storeArtifact(kind: ArtifactKind, content: Buffer | string): ArtifactInfo {
+    const bytes = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+    if (bytes.length > config.artifacts.maxBytes) {
+        throw new Error(`Artifact exceeds ${config.artifacts.maxBytes} bytes`);
+    }
+    if (kind === 'wasm' && !bytes.subarray(0, WASM_HEADER.length).equals(WASM_HEADER)) {
+        throw new Error('Not a WebAssembly module');
+    }
+
+    const hash = hashContent(bytes);
+    const existing = artifacts.get(artifactKey(hash, kind));
+    if (existing) return existing;
+
+    const info: ArtifactInfo = { hash, kind, size: bytes.length, storedAt: Date.now() };
+    try {
+        if (!existsSync(ARTIFACTS_DIR)) {
+            mkdirSync(ARTIFACTS_DIR, { recursive: true });
+        }
+        writeFileSync(artifactPath(info), bytes);
+    } catch (error) {
+        logger.error('Persistence', `❌ Failed to save artifact ${hash.slice(0, 12)}: ${(error as Error).message}`);
+        throw error;
+    }
+
+    artifacts.set(artifactKey(hash, kind), info);
+    logger.info('Artifacts', `📦 Stored ${kind} ${hash.slice(0, 12)} (${bytes.length} bytes)`);
+    return info;
+}
+
+export function getArtifactInfo(hash: string, kind: ArtifactKind): ArtifactInfo | undefined {
+    return artifacts.get(artifactKey(hash, kind));
+}
+
+export function readArtifact(hash: string, kind: ArtifactKind): Buffer | undefined {
+    const info = artifacts.get(artifactKey(hash, kind));
+    if (!info) return undefined;
+    try {
+        return readFileSync(artifactPath(info));
+    } catch (error) {
+        logger.error('Artifacts', `❌ Failed to read artifact ${hash.slice(0, 12)}: ${(error as Error).message}`);
+        return undefined;
+    }
+}
+
+export function listArtifacts(kind?: ArtifactKind): ArtifactInfo[] {
+    return Array.from(artifacts.values()).filter(a => !kind || a.kind === kind);
+}
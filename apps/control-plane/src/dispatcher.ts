@@ -2,32 +2,77 @@
 // TERMINUS CONTROL PLANE - Dispatcher
 // =============================================================================
 // Handles job assignment with agent context and state persistence.
+// Jobs go through the JobQueue: a scheduler loop hands them to nodes with free
+// job slots and the required capabilities, and retries them on timeout or node loss.
 // =============================================================================
 
 import { randomUUID } from 'crypto';
-import type { WebSocket } from 'ws';
 import {
     type JobAssignMessage,
+    type JobCancelMessage,
     type JobResultMessage,
+    type JobResultStatus,
+    type JobArtifact,
+    type RunStatus,
     serializeMessage,
     createBaseMessage,
 } from '@terminus/protocol';
+import { config } from '@terminus/config';
 import { nodeRegistry } from './registry.js';
 import { logger } from './logger.js';
+import { recordJobComplete } from './monitor.js';
 import { getAgent, getAgentState, updateAgentState } from './agent-store.js';
+import { openJobEvents, endJobEvents } from './job-events.js';
+import { markRunSettled, isRunSettled } from './sessions.js';
+import { createRun, markRunStarted, markRunRequeued, markRunFinished } from './run-store.js';
+import { readArtifact, storeArtifact, type ArtifactKind } from './artifact-store.js';
+import {
+    type QueuedJob,
+    type JobPriority,
+    ANONYMOUS_OWNER,
+    enqueue,
+    dequeue,
+    markRunning,
+    markComplete,
+    markTimeout,
+    removePending,
+    getPendingJobs,
+    getQueueStats,
+} from './job-queue.js';
+
+// Callers waiting on a job, keyed by jobId (one per job, across retries)
+interface JobWaiter {
+    jobId: string;
+    queuedAt: number;                // Reset each time the job goes back into the queue
+    queueTimeout: number;
+    resolve: (result: DispatchResult) => void;
+    onAssigned?: DispatchOptions['onAssigned'];
+}
 
-// Pending job tracker
+// Runs in flight on a node, keyed by runId (a new run per attempt)
 interface PendingJob {
     jobId: string;
     runId: string;
     nodeId: string;
     agentId: string;
-    resolve: (result: JobResultMessage['payload']) => void;
-    reject: (error: Error) => void;
+    artifacts: { hash: string; kind: ArtifactKind }[];   // Code the run needs, which the node may fetch
+    timer: NodeJS.Timeout;
 }
 
+const waiters = new Map<string, JobWaiter>();
 const pendingJobs = new Map<string, PendingJob>();
 
+const SCHEDULER_INTERVAL_MS = 500;
+const DEFAULT_QUEUE_TIMEOUT = 60000;  // Max time a job waits for a node before failing
+const NODE_TIMEOUT_MARGIN = 1000;     // Nodes get the job timeout minus this, so their result beats our timer
+const MIN_JOB_TIMEOUT = NODE_TIMEOUT_MARGIN + 1000;
+const MAX_JOB_TIMEOUT = 10 * 60 * 1000;
+const MAX_QUEUE_TIMEOUT = 60 * 60 * 1000;
+
+function newRunId(): string {
+    return `run-${randomUUID().slice(0, 8)}`;
+}
+
 // =============================================================================
 // Dispatch Job
 // =============================================================================
@@ -35,7 +80,15 @@ const pendingJobs = new Map<string, PendingJob>();
 export interface DispatchOptions {
     input: unknown;
     agentId?: string;
-    timeout?: number;
+    timeout?: number;                // Per attempt, once the job is running on a node
+    queueTimeout?: number;           // Max time waiting in the queue for a node
+    requiredCapabilities?: string[];
+    constraints?: string[];          // Node label rules, e.g. ['region=eu', '!untrusted']
+    tolerations?: string[];          // Node taints the job may run on
+    toolCall?: { tool: string; params?: unknown };   // Run a node tool directly instead of the agent script
+    owner?: string;                  // Submitting wallet; jobs are fair-queued per owner
+    priority?: JobPriority;
+    onAssigned?: (job: { jobId: string; runId: string; nodeId: string }) => void;  // Called each time the job is sent to a node
 }
 
 export interface DispatchResult {
@@ -43,48 +96,195 @@ export interface DispatchResult {
     jobId?: string;
     runId?: string;
     result?: JobResultMessage['payload'];
+    artifacts?: JobArtifact[];       // Files the job returned, stored by hash
     error?: string;
 }
 
-export async function dispatchJob(options: DispatchOptions): Promise<DispatchResult> {
-    const { input, agentId = 'default', timeout = 10000 } = options;
+// Final RunState status for each JOB_RESULT status
+const RUN_STATUS: Record<JobResultStatus, RunStatus> = {
+    SUCCESS: 'COMPLETED',
+    ERROR: 'FAILED',
+    TIMEOUT: 'TIMEOUT',
+    CANCELLED: 'CANCELLED',
+};
 
-    // Find idle node
-    const idleNodes = nodeRegistry.getIdleNodes();
-    if (idleNodes.length === 0) {
-        logger.warn('Dispatcher', '⚠️ No idle nodes available');
-        return { success: false, error: 'No idle nodes available' };
-    }
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+    return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
 
-    const selectedNode = idleNodes[0];
-    const socket = nodeRegistry.getSocket(selectedNode.nodeId);
-    if (!socket) {
-        return { success: false, error: 'Node socket not found' };
+/**
+ * Check the caller-supplied limits and requirements of a job. Returns an error message.
+ */
+export function validateDispatchOptions(options: Pick<DispatchOptions, 'timeout' | 'queueTimeout' | 'requiredCapabilities'>): string | null {
+    const { timeout, queueTimeout, requiredCapabilities } = options;
+    if (timeout !== undefined && !isIntegerInRange(timeout, MIN_JOB_TIMEOUT, MAX_JOB_TIMEOUT)) {
+        return `"timeout" must be an integer from ${MIN_JOB_TIMEOUT} to ${MAX_JOB_TIMEOUT} ms`;
     }
+    if (queueTimeout !== undefined && !isIntegerInRange(queueTimeout, 0, MAX_QUEUE_TIMEOUT)) {
+        return `"queueTimeout" must be an integer from 0 to ${MAX_QUEUE_TIMEOUT} ms`;
+    }
+    if (requiredCapabilities !== undefined
+        && (!Array.isArray(requiredCapabilities) || requiredCapabilities.some(c => typeof c !== 'string'))) {
+        return '"requiredCapabilities" must be an array of strings';
+    }
+    return null;
+}
 
-    // Get agent and its state
+/**
+ * Queue a job and return immediately. `done` resolves once the job finishes
+ * (including retries); its RunState can be polled from the run store meanwhile.
+ */
+export function submitJob(options: DispatchOptions): { jobId: string; done: Promise<DispatchResult> } {
+    const invalid = validateDispatchOptions(options);
+    if (invalid) throw new Error(invalid);
+
+    const {
+        input,
+        agentId = 'default',
+        timeout = 10000,
+        queueTimeout = DEFAULT_QUEUE_TIMEOUT,
+        requiredCapabilities = [],
+        constraints = [],
+        tolerations = [],
+        toolCall,
+        owner = ANONYMOUS_OWNER,
+        priority = 'NORMAL',
+        onAssigned,
+    } = options;
+
+    // Full UUID: the job ID is all it takes to read an anonymous job
+    const jobId = `job-${randomUUID()}`;
+    const runId = newRunId();
+
+    const done = new Promise<DispatchResult>(resolve => {
+        waiters.set(jobId, { jobId, queuedAt: Date.now(), queueTimeout, resolve, onAssigned });
+    });
+
+    // The agent's code, runtime and tool allowlist are fixed at submission and limit
+    // placement to nodes running that language and hosting those tools
     const agent = getAgent(agentId);
-    const agentState = getAgentState(agentId);
+    const tools = agent?.tools ?? [];
+    const runtime = agent?.runtime ?? 'javascript';
+    const scriptHash = agent?.scriptHash;
+    const container = runtime === 'container' ? agent?.container : undefined;
+    const wasm = runtime === 'wasm' ? agent?.wasm : undefined;
 
-    const jobId = `job-${randomUUID().slice(0, 8)}`;
-    const runId = `run-${randomUUID().slice(0, 8)}`;
+    createRun(jobId, runId, agentId, input, scriptHash ?? wasm?.hash, owner === ANONYMOUS_OWNER ? undefined : owner);
+    openJobEvents(jobId);
+    enqueue({
+        jobId, runId, agentId, input, timeout,
+        requiredCapabilities: toolCall ? [...requiredCapabilities, `tool:${toolCall.tool}`] : requiredCapabilities,
+        constraints, tolerations, tools, runtime, scriptHash, container, wasm, toolCall, owner, priority,
+    });
+    runScheduler();
 
-    logger.info('Dispatcher', `📤 Dispatching ${jobId} to ${selectedNode.nodeId}`);
+    return { jobId, done };
+}
 
-    // Create result promise
-    const resultPromise = new Promise<JobResultMessage['payload']>((resolve, reject) => {
-        pendingJobs.set(runId, {
-            jobId, runId, nodeId: selectedNode.nodeId, agentId, resolve, reject,
-        });
+/**
+ * Queue a job and wait for it to finish (including retries).
+ */
+export async function dispatchJob(options: DispatchOptions): Promise<DispatchResult> {
+    return submitJob(options).done;
+}
 
-        setTimeout(() => {
-            if (pendingJobs.has(runId)) {
-                pendingJobs.delete(runId);
-                reject(new Error(`Timeout after ${timeout}ms`));
-            }
-        }, timeout);
+function settle(jobId: string, result: DispatchResult, status: RunStatus): void {
+    const waiter = waiters.get(jobId);
+    if (!waiter) return;
+
+    waiters.delete(jobId);
+    endJobEvents(jobId);
+    markRunFinished(jobId, status, {
+        output: result.result?.output,
+        error: result.error ?? result.result?.error?.message,
+        logs: result.result?.logs,
+        metrics: result.result?.metrics,
+        artifacts: result.artifacts,
     });
 
+    if (result.success) {
+        logger.info('Dispatcher', `✅ Job ${jobId}: ${result.result?.status}`);
+    } else {
+        logger.error('Dispatcher', `❌ Job ${jobId}: ${result.error ?? result.result?.status}`);
+    }
+    waiter.resolve(result);
+}
+
+// =============================================================================
+// Scheduler
+// =============================================================================
+
+/**
+ * Hand queued jobs to nodes with free job slots. Runs on an interval and whenever
+ * a job is queued or a slot frees up.
+ */
+export function runScheduler(): void {
+    expireQueuedJobs(Date.now());
+
+    // One job per node per pass, so work spreads across the fleet before nodes fill up
+    let assigned = true;
+    while (assigned) {
+        assigned = false;
+        for (const node of nodeRegistry.getAvailableNodes()) {
+            if (!nodeRegistry.getSocket(node.nodeId)) continue;
+
+            const job = dequeue(node);
+            if (!job) continue;
+
+            try {
+                assign(job, node.nodeId);
+            } catch (error) {
+                logger.error('Dispatcher', `❌ Failed to assign ${job.jobId} to ${node.nodeId}: ${(error as Error).message}`);
+                failRun(job.runId, `Assignment failed: ${(error as Error).message}`);
+            }
+            assigned = true;
+        }
+    }
+}
+
+function expireQueuedJobs(now: number): void {
+    for (const job of getPendingJobs()) {
+        const waiter = waiters.get(job.jobId);
+        if (!waiter || now - waiter.queuedAt < waiter.queueTimeout) continue;
+
+        removePending(job.jobId);
+        logger.warn('Dispatcher', `⌛ ${job.jobId} waited ${waiter.queueTimeout}ms without a node`);
+        settle(job.jobId, {
+            success: false,
+            jobId: job.jobId,
+            error: `No node available within ${waiter.queueTimeout}ms`,
+        }, 'FAILED');
+    }
+}
+
+function assign(job: QueuedJob, nodeId: string): void {
+    const socket = nodeRegistry.getSocket(nodeId)!;
+    const { jobId, agentId } = job;
+
+    // Each attempt is its own run, so a late result from an abandoned attempt can't settle a retry
+    job.runId = newRunId();
+    const runId = job.runId;
+    markRunning(job, nodeId);
+    markRunStarted(jobId, runId, nodeId);
+    nodeRegistry.reserveSlot(nodeId);
+    nodeRegistry.recordAssignment(nodeId);
+
+    const agentState = getAgentState(agentId);
+
+    logger.info('Dispatcher', `📤 Dispatching ${jobId} to ${nodeId}${job.retryCount > 0 ? ` (retry ${job.retryCount})` : ''}`);
+
+    const timer = setTimeout(() => {
+        // Free the node's capacity instead of letting it finish work nobody waits for
+        sendJobCancel(nodeId, jobId, runId, 'TIMEOUT');
+        failRun(runId, `Timeout after ${job.timeout}ms`, 'TIMEOUT');
+    }, job.timeout);
+
+    const artifacts: PendingJob['artifacts'] = [
+        ...(job.scriptHash ? [{ hash: job.scriptHash, kind: 'script' as const }] : []),
+        ...(job.wasm ? [{ hash: job.wasm.hash, kind: 'wasm' as const }] : []),
+    ];
+    pendingJobs.set(runId, { jobId, runId, nodeId, agentId, artifacts, timer });
+
     // Build job message with context
     const jobMessage: JobAssignMessage = {
         ...createBaseMessage('JOB_ASSIGN'),
@@ -93,62 +293,242 @@ export async function dispatchJob(options: DispatchOptions): Promise<DispatchRes
             jobId,
             runId,
             agentId,
-            input,
-            timeout: timeout - 1000,
+            input: job.input,
+            timeout: Math.max(1, Math.floor(job.timeout - NODE_TIMEOUT_MARGIN)),
+            // Inject agent code and context
+            ...codePayload(job, nodeRegistry.hasFeature(nodeId, 'artifacts')),
+            ...(job.runtime !== 'javascript' && { runtime: job.runtime }),
+            ...(job.container && { container: job.container }),
+            context: agentState.memory,
+            ...(job.tools.length > 0 && { tools: job.tools }),
+            ...(job.toolCall && { toolCall: job.toolCall }),
         },
     };
 
-    // Inject agent script and context
-    if (agent) {
-        (jobMessage.payload as any).script = agent.script;
+    socket.send(serializeMessage(jobMessage));
+    waiters.get(jobId)?.onAssigned?.({ jobId, runId, nodeId });
+}
+
+/**
+ * The code part of a JOB_ASSIGN. Nodes that speak 'artifacts' get hashes and
+ * fetch what they haven't cached; older nodes get the code inline every time.
+ */
+function codePayload(job: QueuedJob, byHash: boolean): Pick<JobAssignMessage['payload'], 'script' | 'scriptHash' | 'wasm'> {
+    const payload: Pick<JobAssignMessage['payload'], 'script' | 'scriptHash' | 'wasm'> = {};
+    if (job.scriptHash) {
+        if (byHash) payload.scriptHash = job.scriptHash;
+        else payload.script = readArtifact(job.scriptHash, 'script')?.toString('utf-8');
     }
-    (jobMessage.payload as any).context = agentState.memory;
+    if (job.wasm) {
+        const { hash, fuel = config.wasm.defaultFuel } = job.wasm;
+        payload.wasm = byHash ? { hash, fuel } : { hash, fuel, module: readArtifact(hash, 'wasm')?.toString('base64') };
+    }
+    return payload;
+}
 
-    socket.send(serializeMessage(jobMessage));
+/**
+ * A run failed without a result (timeout or node loss): retry it, or settle the
+ * job as failed once it lands in the dead letter queue.
+ */
+function failRun(runId: string, reason: string, finalStatus: RunStatus = 'FAILED'): void {
+    const pending = pendingJobs.get(runId);
+    if (!pending) return;
 
-    try {
-        const result = await resultPromise;
-        logger.info('Dispatcher', `✅ Job ${jobId}: ${result.status}`);
-        return { success: result.status === 'SUCCESS', jobId, runId, result };
-    } catch (error) {
-        logger.error('Dispatcher', `❌ Job ${jobId}: ${(error as Error).message}`);
-        return { success: false, jobId, runId, error: (error as Error).message };
+    clearTimeout(pending.timer);
+    pendingJobs.delete(runId);
+    markRunSettled(runId);
+    nodeRegistry.releaseSlot(pending.nodeId);
+    recordJobComplete(pending.nodeId, false);
+
+    const status = markTimeout(runId, reason);
+    if (status === 'DEAD') {
+        settle(pending.jobId, { success: false, jobId: pending.jobId, runId, error: `${reason}; moved to dead letter queue` }, finalStatus);
+        return;
     }
+
+    markRunRequeued(pending.jobId, reason);
+
+    const waiter = waiters.get(pending.jobId);
+    if (waiter) waiter.queuedAt = Date.now();
+    runScheduler();
+}
+
+const schedulerInterval = setInterval(runScheduler, SCHEDULER_INTERVAL_MS);
+
+export function stopScheduler(): void {
+    clearInterval(schedulerInterval);
 }
 
 // =============================================================================
 // Handle Job Result
 // =============================================================================
 
-export function handleJobResult(message: JobResultMessage): void {
-    const { runId, jobId, status } = message.payload;
+/**
+ * Settle a run with the result its node sent. Returns false if the run is in
+ * flight on a different node, in which case the result is dropped unacknowledged.
+ */
+export function handleJobResult(nodeId: string, message: JobResultMessage): boolean {
+    // File contents are stored once here; everything downstream sees their hashes
+    const { artifacts: uploads, ...payload } = message.payload;
+    const { runId, jobId, status } = payload;
 
     logger.info('Dispatcher', `📥 Result for ${jobId}: ${status}`);
 
     const pending = pendingJobs.get(runId);
     if (!pending) {
-        logger.warn('Dispatcher', `⚠️ No pending job for runId: ${runId}`);
-        return;
+        if (isRunSettled(runId)) {
+            logger.info('Dispatcher', `♻️ Ignoring duplicate result for runId: ${runId}`);
+        } else {
+            logger.warn('Dispatcher', `⚠️ No pending job for runId: ${runId}`);
+        }
+        return true;
+    }
+    if (pending.nodeId !== nodeId || pending.jobId !== jobId) {
+        logger.warn('Dispatcher', `⛔ ${nodeId} sent a result for ${runId}, which is assigned to ${pending.nodeId}; dropped`);
+        return false;
     }
 
+    clearTimeout(pending.timer);
     pendingJobs.delete(runId);
+    markRunSettled(runId);
+    markComplete(runId, status === 'SUCCESS', payload.output, payload.error?.message);
+    nodeRegistry.releaseSlot(pending.nodeId);
+    recordJobComplete(pending.nodeId, status === 'SUCCESS');
 
     // Persist updated memory
-    const memory = (message.payload as any).memory;
+    const memory = payload.memory;
     if (memory && pending.agentId) {
         updateAgentState(pending.agentId, memory);
         logger.info('Dispatcher', `💾 Saved memory for agent ${pending.agentId}`);
     }
 
     // Log captured logs
-    if (message.payload.logs?.length > 0) {
-        logger.info('Dispatcher', `📋 Logs (${message.payload.logs.length}):`);
-        message.payload.logs.forEach((line: string, i: number) => {
+    if (payload.logs?.length > 0) {
+        logger.info('Dispatcher', `📋 Logs (${payload.logs.length}):`);
+        payload.logs.forEach((line: string, i: number) => {
             logger.info('Dispatcher', `   ${i + 1}. ${line}`);
         });
     }
 
-    pending.resolve(message.payload);
+    const artifacts = uploads && storeRunArtifacts(jobId, uploads);
+    settle(jobId, { success: status === 'SUCCESS', jobId, runId, result: payload, artifacts }, RUN_STATUS[status]);
+
+    // The node has a free slot again
+    runScheduler();
+    return true;
+}
+
+// =============================================================================
+// Cancellation
+// =============================================================================
+
+/**
+ * Tell a node to abort a job. Nodes that didn't negotiate the 'cancellation'
+ * feature are skipped; they will finish the job and the result is ignored.
+ */
+export function sendJobCancel(
+    nodeId: string,
+    jobId: string,
+    runId: string,
+    reason: JobCancelMessage['payload']['reason']
+): boolean {
+    const socket = nodeRegistry.getSocket(nodeId);
+    if (!socket || !nodeRegistry.hasFeature(nodeId, 'cancellation')) {
+        return false;
+    }
+
+    const message: JobCancelMessage = {
+        ...createBaseMessage('JOB_CANCEL'),
+        type: 'JOB_CANCEL',
+        payload: {
+            jobId,
+            // Older nodes cancel by jobId only (and reject unknown fields)
+            ...(nodeRegistry.hasFeature(nodeId, 'run-cancellation') && { runId }),
+            reason,
+        },
+    };
+    socket.send(serializeMessage(message));
+    logger.info('Dispatcher', `🛑 Sent cancel for ${jobId} to ${nodeId} (${reason})`);
+    return true;
+}
+
+/**
+ * Cancel a queued or running job by ID. Returns false if no such job is in flight.
+ */
+export function cancelJob(jobId: string): boolean {
+    if (removePending(jobId)) {
+        settle(jobId, { success: false, jobId, error: 'Job cancelled' }, 'CANCELLED');
+        return true;
+    }
+
+    const pending = Array.from(pendingJobs.values()).find(j => j.jobId === jobId);
+    if (!pending) return false;
+
+    clearTimeout(pending.timer);
+    pendingJobs.delete(pending.runId);
+    markRunSettled(pending.runId);
+    markComplete(pending.runId, false, undefined, 'Job cancelled');
+    nodeRegistry.releaseSlot(pending.nodeId);
+    sendJobCancel(pending.nodeId, jobId, pending.runId, 'REQUESTED');
+    settle(jobId, { success: false, jobId, runId: pending.runId, error: 'Job cancelled' }, 'CANCELLED');
+    return true;
+}
+
+/**
+ * Retry (or dead-letter) every job in flight on a node that went away.
+ * Returns the affected job IDs.
+ */
+export function failNodeJobs(nodeId: string, reason: string): string[] {
+    const lost = Array.from(pendingJobs.values()).filter(j => j.nodeId === nodeId);
+
+    for (const pending of lost) {
+        failRun(pending.runId, reason);
+    }
+
+    return lost.map(j => j.jobId);
+}
+
+/**
+ * Whether a run of the given job is in flight on the node. Nodes may only report
+ * progress for their own runs.
+ */
+export function isRunAssigned(nodeId: string, jobId: string, runId: string): boolean {
+    const pending = pendingJobs.get(runId);
+    return !!pending && pending.nodeId === nodeId && pending.jobId === jobId;
+}
+
+// =============================================================================
+// Artifacts
+// =============================================================================
+
+/**
+ * The kind of an artifact a node's in-flight run needs, or undefined if none of
+ * its runs do. Nodes may only fetch the code of jobs assigned to them.
+ */
+export function assignedArtifactKind(nodeId: string, hash: string): ArtifactKind | undefined {
+    for (const pending of pendingJobs.values()) {
+        if (pending.nodeId !== nodeId) continue;
+        const artifact = pending.artifacts.find(a => a.hash === hash);
+        if (artifact) return artifact.kind;
+    }
+    return undefined;
+}
+
+/**
+ * Store the files a run returned. Files that can't be stored are logged and left out.
+ */
+function storeRunArtifacts(jobId: string, uploads: NonNullable<JobResultMessage['payload']['artifacts']>): JobArtifact[] {
+    const artifacts: JobArtifact[] = [];
+    for (const { name, contentType, content } of uploads) {
+        try {
+            const { hash, size } = storeArtifact('file', Buffer.from(content, 'base64'));
+            artifacts.push({ name, hash, size, contentType });
+        } catch (error) {
+            logger.warn('Dispatcher', `⚠️ Dropped artifact ${name} of ${jobId}: ${(error as Error).message}`);
+        }
+    }
+    logger.info('Dispatcher', `📎 Stored ${artifacts.length} artifact(s) for ${jobId}`);
+    return artifacts;
 }
 
 // =============================================================================
@@ -159,5 +539,6 @@ export function getDispatcherStats() {
     return {
         pendingJobs: pendingJobs.size,
         pendingJobIds: Array.from(pendingJobs.values()).map(j => j.jobId),
+        queue: getQueueStats(),
     };
 }
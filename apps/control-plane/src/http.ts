@@ -3,9 +3,16 @@
 // =============================================================================
 
 import { createServer, type IncomingMessage, type ServerResponse } from 'http';
-import { dispatchJob, getDispatcherStats } from './dispatcher.js';
+import { randomUUID } from 'crypto';
+import { validateToolParams, type RunState, type RunStatus } from '@terminus/protocol';
+import { dispatchJob, submitJob, cancelJob, runScheduler, getDispatcherStats, validateDispatchOptions, type DispatchOptions } from './dispatcher.js';
+import { getRun, listRuns } from './run-store.js';
+import { sendJobWebhook, sendWebhook, isValidCallbackUrl, getDelivery, listDeliveries, type WebhookDelivery } from './webhooks.js';
+import { getQueueStats, getPendingJobs, getDeadLetterJobs, JOB_PRIORITIES, type JobPriority } from './job-queue.js';
+import { cancelAgentJob } from './agent-jobs.js';
+import { subscribeJobEvents, hasJobEvents } from './job-events.js';
 import { handleAgentRoutes } from './agent-routes.js';
-import { nodeRegistry } from './registry.js';
+import { nodeRegistry, parseConstraint } from './registry.js';
 import { logger } from './logger.js';
 import { getAllAgents, getAgentState } from './agent-store.js';
 import { executeMultiAgent } from './orchestrator.js';
@@ -16,8 +23,13 @@ import {
 } from './payment/index.js';
 import { getAgentNodesStatus, getLogs, getConnectionHistory, getMonitoringSummary } from './monitor.js';
 import { getAllAgentReputations } from './nft/agent-nft.js';
+import { getAllNodeIdentities, revokeNodeIdentity } from './node-identity.js';
+import { getNodeLabels, setNodeLabels, validateNodeLabels } from './node-labels.js';
+import { storeArtifact, readArtifact, listArtifacts, type ArtifactKind } from './artifact-store.js';
+import { issueWalletChallenge, verifyWalletProof, type WalletProof } from './wallet-proofs.js';
 
 const HTTP_PORT = parseInt(process.env.HTTP_PORT ?? '3000', 10);
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN;
 
 // =============================================================================
 // Helpers
@@ -32,6 +44,37 @@ function sendError(res: ServerResponse, status: number, message: string): void {
     sendJson(res, status, { error: message });
 }
 
+function startEventStream(res: ServerResponse): void {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+    });
+}
+
+function sendEvent(res: ServerResponse, event: string, data: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function wantsEventStream(req: IncomingMessage): boolean {
+    return (req.headers.accept ?? '').includes('text/event-stream');
+}
+
+function isAdmin(req: IncomingMessage): boolean {
+    return !!ADMIN_API_TOKEN && req.headers['x-admin-token'] === ADMIN_API_TOKEN;
+}
+
+/**
+ * Admin routes require X-Admin-Token to match ADMIN_API_TOKEN (disabled when unset).
+ */
+function requireAdmin(req: IncomingMessage, res: ServerResponse): boolean {
+    if (!isAdmin(req)) {
+        sendError(res, 403, 'Admin token required');
+        return false;
+    }
+    return true;
+}
+
 async function parseBody(req: IncomingMessage): Promise<unknown> {
     return new Promise((resolve, reject) => {
         let body = '';
@@ -48,6 +91,147 @@ async function parseBody(req: IncomingMessage): Promise<unknown> {
 // Route Handlers
 // =============================================================================
 
+interface RunRequest {
+    input?: unknown;
+    agentId?: string;
+    timeout?: number;
+    queueTimeout?: number;
+    requiredCapabilities?: string[];
+    constraints?: string[];          // Node label rules: 'region=eu', 'tier!=free', 'trusted', '!untrusted'
+    tolerations?: string[];          // Node taints the job may run on
+    priority?: JobPriority;          // HIGH needs a paid tier (positive prepaid balance)
+    toolCall?: { tool: string; params?: unknown };   // Admin only: run one node tool instead of the agent script
+    callbackUrl?: string;            // POSTed the final JOB_RESULT payload when the job finishes
+}
+
+/**
+ * Validate the request fields shared by /api/run and /api/jobs. Returns an error message.
+ */
+function validateRunRequest(body: RunRequest): string | null {
+    if (!body.input && !body.toolCall) {
+        return 'Missing "input" field';
+    }
+    if (body.toolCall !== undefined) {
+        const error = validateToolCall(body.toolCall);
+        if (error) return error;
+    }
+    if (body.constraints !== undefined) {
+        if (!Array.isArray(body.constraints)) return '"constraints" must be an array of strings';
+        const invalid = body.constraints.find(c => typeof c !== 'string' || !parseConstraint(c));
+        if (invalid !== undefined) return `Invalid constraint "${invalid}" (expected key=value, key!=value, key or !key)`;
+    }
+    const invalidOptions = validateDispatchOptions(body);
+    if (invalidOptions) return invalidOptions;
+    if (body.tolerations !== undefined && (!Array.isArray(body.tolerations) || body.tolerations.some(t => typeof t !== 'string'))) {
+        return '"tolerations" must be an array of strings';
+    }
+    if (body.priority !== undefined && !JOB_PRIORITIES.includes(body.priority)) {
+        return `Invalid "priority" (expected one of ${JOB_PRIORITIES.join(', ')})`;
+    }
+    if (body.callbackUrl !== undefined && !isValidCallbackUrl(body.callbackUrl)) {
+        return 'Invalid "callbackUrl" (must be a public http(s) URL)';
+    }
+    return null;
+}
+
+/**
+ * Check a direct tool call against the tool's manifest. Only tools a connected
+ * node has advertised a manifest for can be called.
+ */
+function validateToolCall(toolCall: RunRequest['toolCall']): string | null {
+    if (typeof toolCall !== 'object' || toolCall === null || typeof toolCall.tool !== 'string' || !toolCall.tool) {
+        return '"toolCall" must be an object with a "tool" name';
+    }
+    const manifest = nodeRegistry.getToolManifest(toolCall.tool);
+    if (!manifest) return `Unknown tool "${toolCall.tool}" (no connected node advertises it)`;
+    return validateToolParams(manifest, toolCall.params ?? {});
+}
+
+/**
+ * The wallet submitting a run. Claiming one (X-Wallet-Address) requires a signed
+ * challenge (X-Wallet-Nonce, X-Wallet-Signature); runs without a claim are anonymous.
+ */
+function verifySubmitter(req: IncomingMessage): WalletProof | { valid: true; address: undefined } {
+    const address = req.headers['x-wallet-address'];
+    if (address === undefined) return { valid: true, address: undefined };
+
+    const nonce = req.headers['x-wallet-nonce'];
+    const signature = req.headers['x-wallet-signature'];
+    if (typeof address !== 'string' || typeof nonce !== 'string' || typeof signature !== 'string') {
+        return { valid: false, error: 'X-Wallet-Address needs X-Wallet-Nonce and X-Wallet-Signature (see POST /api/wallet/challenge)' };
+    }
+    return verifyWalletProof(address, nonce, signature);
+}
+
+/**
+ * Whether the caller may act on a run: admins, or the wallet that submitted it,
+ * proven with a fresh signed challenge as at submission. Anonymous runs are admin only.
+ */
+function isRunOwner(req: IncomingMessage, run: RunState | undefined): boolean {
+    if (isAdmin(req)) return true;
+    if (!run?.owner) return false;
+
+    const submitter = verifySubmitter(req);
+    return submitter.valid && submitter.address === run.owner;
+}
+
+/**
+ * Whether the caller may read a run. Anonymous runs are readable by anyone
+ * holding the (unguessable) job ID; runs submitted by a wallet only by it.
+ */
+function canReadRun(req: IncomingMessage, run: RunState): boolean {
+    return !run.owner || isRunOwner(req, run);
+}
+
+/**
+ * A run without the job's data, for listings.
+ */
+function summarizeRun(run: RunState): Omit<RunState, 'input' | 'output' | 'logs' | 'artifacts'> {
+    const { input: _input, output: _output, logs: _logs, artifacts: _artifacts, ...summary } = run;
+    return summary;
+}
+
+/**
+ * Paid tiers (wallets with a prepaid balance) run at HIGH priority unless they ask
+ * for less; everyone else gets at most NORMAL.
+ */
+function resolvePriority(requested: JobPriority | undefined, wallet: string | undefined): JobPriority {
+    const paid = !!wallet && (getUserBalance(wallet)?.balance ?? 0) > 0;
+    if (!paid) return requested === 'LOW' ? 'LOW' : 'NORMAL';
+    return requested ?? 'HIGH';
+}
+
+/**
+ * Dispatch options for a run request, owned by its verified submitter wallet.
+ */
+function runOptions(body: RunRequest, wallet: string | undefined): DispatchOptions {
+    return {
+        input: body.input,
+        agentId: body.agentId,
+        timeout: body.timeout,
+        queueTimeout: body.queueTimeout,
+        requiredCapabilities: body.requiredCapabilities,
+        constraints: body.constraints,
+        tolerations: body.tolerations,
+        toolCall: body.toolCall,
+        owner: wallet,
+        priority: resolvePriority(body.priority, wallet),
+    };
+}
+
+/**
+ * Queue a job without waiting; its result goes to body.callbackUrl if set.
+ */
+function submitRun(body: RunRequest, wallet: string | undefined): string {
+    const { jobId, done } = submitJob(runOptions(body, wallet));
+
+    const { callbackUrl } = body;
+    if (callbackUrl) {
+        done.then(result => sendJobWebhook(callbackUrl, result));
+    }
+    return jobId;
+}
+
 async function handleRun(req: IncomingMessage, res: ServerResponse): Promise<void> {
     if (req.method !== 'POST') {
         sendError(res, 405, 'Method not allowed');
@@ -55,24 +239,37 @@ async function handleRun(req: IncomingMessage, res: ServerResponse): Promise<voi
     }
 
     try {
-        const body = await parseBody(req) as {
-            input?: unknown;
-            agentId?: string;
-            timeout?: number;
-        };
+        const body = await parseBody(req) as RunRequest;
+        if (body.toolCall !== undefined && !requireAdmin(req, res)) return;
 
-        if (!body.input) {
-            sendError(res, 400, 'Missing "input" field');
+        const invalid = validateRunRequest(body);
+        if (invalid) {
+            sendError(res, 400, invalid);
             return;
         }
+        const submitter = verifySubmitter(req);
+        if (!submitter.valid) {
+            sendError(res, 401, submitter.error);
+            return;
+        }
+        const wallet = submitter.address;
 
-        logger.info('HTTP', `📨 Run: ${JSON.stringify(body.input).slice(0, 50)}...`);
+        logger.info('HTTP', `📨 Run: ${JSON.stringify(body.input ?? body.toolCall).slice(0, 50)}...`);
 
-        const result = await dispatchJob({
-            input: body.input,
-            agentId: body.agentId,
-            timeout: body.timeout,
-        });
+        // Callback mode: don't hold the connection, the result is delivered by webhook
+        if (body.callbackUrl) {
+            const jobId = submitRun(body, wallet);
+            sendJson(res, 202, { success: true, jobId, status: 'PENDING', callbackUrl: body.callbackUrl });
+            return;
+        }
+
+        // Streaming mode: progress events as Server-Sent Events, then the final result
+        if (wantsEventStream(req)) {
+            await handleRunStream(req, res, body, wallet);
+            return;
+        }
+
+        const result = await dispatchJob(runOptions(body, wallet));
 
         if (result.success) {
             sendJson(res, 200, {
@@ -95,6 +292,314 @@ async function handleRun(req: IncomingMessage, res: ServerResponse): Promise<voi
     }
 }
 
+async function handleRunStream(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: RunRequest,
+    wallet: string | undefined
+): Promise<void> {
+    let unsubscribe: () => void = () => { };
+    res.on('close', () => unsubscribe());
+
+    const result = await dispatchJob({
+        ...runOptions(body, wallet),
+        onAssigned: ({ jobId, runId, nodeId }) => {
+            // Retries assign the job again: one stream, one 'job' event per attempt
+            if (!res.headersSent) {
+                startEventStream(res);
+                unsubscribe = subscribeJobEvents(jobId, {
+                    onEvent: event => sendEvent(res, 'progress', event),
+                    onEnd: () => { },
+                });
+            }
+            sendEvent(res, 'job', { jobId, runId, nodeId });
+        },
+    });
+    unsubscribe();
+
+    // Never assigned: no stream was opened, reply with a plain error
+    if (!res.headersSent) {
+        sendJson(res, 503, { success: false, error: result.error });
+        return;
+    }
+
+    sendEvent(res, 'result', result.success
+        ? {
+            success: true,
+            jobId: result.jobId,
+            runId: result.runId,
+            output: result.result?.output,
+            logs: result.result?.logs,
+            metrics: result.result?.metrics,
+        }
+        : {
+            success: false,
+            jobId: result.jobId,
+            error: result.error ?? result.result?.error,
+        });
+    res.end();
+}
+
+async function handleSubmitJob(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+        const body = await parseBody(req) as RunRequest;
+        if (body.toolCall !== undefined && !requireAdmin(req, res)) return;
+
+        const invalid = validateRunRequest(body);
+        if (invalid) {
+            sendError(res, 400, invalid);
+            return;
+        }
+        const submitter = verifySubmitter(req);
+        if (!submitter.valid) {
+            sendError(res, 401, submitter.error);
+            return;
+        }
+
+        const jobId = submitRun(body, submitter.address);
+
+        logger.info('HTTP', `📨 Submitted ${jobId}`);
+        sendJson(res, 202, { success: true, jobId, status: 'PENDING' });
+    } catch (error) {
+        sendError(res, 400, (error as Error).message);
+    }
+}
+
+/**
+ * Admins list every job; wallets list their own (with a fresh X-Wallet-* proof).
+ * Entries are summaries: input, output, logs and artifacts come from GET /api/jobs/:id.
+ */
+async function handleListJobs(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let owner: string | undefined;
+    if (!isAdmin(req)) {
+        const submitter = verifySubmitter(req);
+        if (!submitter.valid || !submitter.address) {
+            sendError(res, 403, 'Listing jobs needs the admin token or a wallet proof (X-Wallet-*)');
+            return;
+        }
+        owner = submitter.address;
+    }
+
+    const params = new URL(req.url || '', `http://${req.headers.host}`).searchParams;
+    const jobs = listRuns({
+        agentId: params.get('agentId') || undefined,
+        nodeId: params.get('nodeId') || undefined,
+        status: (params.get('status') || undefined) as RunStatus | undefined,
+        owner,
+        limit: parseInt(params.get('limit') || '100', 10),
+    });
+    sendJson(res, 200, { jobs: jobs.map(summarizeRun) });
+}
+
+async function handleGetJob(req: IncomingMessage, res: ServerResponse, jobId: string): Promise<void> {
+    if (req.method !== 'GET') {
+        sendError(res, 405, 'Method not allowed');
+        return;
+    }
+
+    const run = getRun(jobId);
+    if (!run) {
+        sendError(res, 404, 'Job not found');
+        return;
+    }
+    if (!canReadRun(req, run)) {
+        sendError(res, 403, 'Only the submitting wallet (X-Wallet-* proof) or an admin can read this job');
+        return;
+    }
+    sendJson(res, 200, run);
+}
+
+async function handleJobEvents(req: IncomingMessage, res: ServerResponse, jobId: string): Promise<void> {
+    if (req.method !== 'GET') {
+        sendError(res, 405, 'Method not allowed');
+        return;
+    }
+
+    if (!hasJobEvents(jobId)) {
+        sendError(res, 404, 'Job not found');
+        return;
+    }
+    const run = getRun(jobId);
+    if (run && !canReadRun(req, run)) {
+        sendError(res, 403, 'Only the submitting wallet (X-Wallet-* proof) or an admin can read this job');
+        return;
+    }
+
+    startEventStream(res);
+    const unsubscribe = subscribeJobEvents(jobId, {
+        onEvent: event => sendEvent(res, 'progress', event),
+        onEnd: () => {
+            sendEvent(res, 'end', { jobId });
+            res.end();
+        },
+    });
+    res.on('close', unsubscribe);
+}
+
+/**
+ * List the files a job returned, or download one by name.
+ */
+async function handleJobArtifacts(req: IncomingMessage, res: ServerResponse, jobId: string, name?: string): Promise<void> {
+    if (req.method !== 'GET') {
+        sendError(res, 405, 'Method not allowed');
+        return;
+    }
+
+    const run = getRun(jobId);
+    if (!run) {
+        sendError(res, 404, 'Job not found');
+        return;
+    }
+    if (!canReadRun(req, run)) {
+        sendError(res, 403, 'Only the submitting wallet (X-Wallet-* proof) or an admin can read this job');
+        return;
+    }
+
+    const artifacts = run.artifacts ?? [];
+    if (name === undefined) {
+        const base = `/api/jobs/${encodeURIComponent(jobId)}/artifacts`;
+        sendJson(res, 200, { jobId, artifacts: artifacts.map(a => ({ ...a, url: `${base}/${a.name}` })) });
+        return;
+    }
+
+    const artifact = artifacts.find(a => a.name === name);
+    const content = artifact && readArtifact(artifact.hash, 'file');
+    if (!artifact || !content) {
+        sendError(res, 404, 'Artifact not found');
+        return;
+    }
+
+    // Job output is untrusted: always a download, never rendered on this origin
+    res.writeHead(200, {
+        'Content-Type': artifact.contentType,
+        'Content-Length': content.length,
+        'Content-Disposition': `attachment; filename="${artifact.name}"`,
+        'X-Content-Type-Options': 'nosniff',
+    });
+    res.end(content);
+}
+
+async function handleCancel(req: IncomingMessage, res: ServerResponse, jobId: string): Promise<void> {
+    if (req.method !== 'POST') {
+        sendError(res, 405, 'Method not allowed');
+        return;
+    }
+
+    // Agent jobs have no run record and are admin only, like anonymous runs
+    if (!isRunOwner(req, getRun(jobId))) {
+        sendError(res, 403, 'Only the submitting wallet (X-Wallet-* proof) or an admin can cancel this job');
+        return;
+    }
+
+    const cancelled = cancelJob(jobId) || cancelAgentJob(jobId);
+    if (!cancelled) {
+        sendError(res, 404, 'Job not found or already finished');
+        return;
+    }
+
+    logger.info('HTTP', `🛑 Cancelled job ${jobId}`);
+    sendJson(res, 200, { success: true, jobId, cancelled: true });
+}
+
+async function handleRevokeNode(req: IncomingMessage, res: ServerResponse, nodeId: string): Promise<void> {
+    if (req.method !== 'POST') {
+        sendError(res, 405, 'Method not allowed');
+        return;
+    }
+    if (!requireAdmin(req, res)) return;
+
+    const body = await parseBody(req) as { reason?: string };
+    const identity = revokeNodeIdentity(nodeId, body.reason);
+    if (!identity) {
+        sendError(res, 404, 'Unknown node identity');
+        return;
+    }
+
+    sendJson(res, 200, { success: true, identity });
+}
+
+async function handleNodeLabels(req: IncomingMessage, res: ServerResponse, nodeId: string): Promise<void> {
+    if (req.method === 'GET') {
+        sendJson(res, 200, { nodeId, ...getNodeLabels(nodeId) });
+        return;
+    }
+    if (req.method !== 'PUT') {
+        sendError(res, 405, 'Method not allowed');
+        return;
+    }
+    if (!requireAdmin(req, res)) return;
+
+    try {
+        const body = await parseBody(req) as { labels?: Record<string, string>; taints?: string[] };
+        const invalid = validateNodeLabels(body);
+        if (invalid) {
+            sendError(res, 400, invalid);
+            return;
+        }
+
+        const entry = setNodeLabels(nodeId, body);
+        // Queued jobs may now fit (or no longer fit) this node
+        runScheduler();
+        sendJson(res, 200, { success: true, ...entry });
+    } catch (error) {
+        sendError(res, 400, (error as Error).message);
+    }
+}
+
+async function handleModules(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (!requireAdmin(req, res)) return;
+
+    if (req.method === 'GET') {
+        sendJson(res, 200, { modules: listArtifacts('wasm') });
+        return;
+    }
+    if (req.method !== 'POST') {
+        sendError(res, 405, 'Method not allowed');
+        return;
+    }
+
+    try {
+        const body = await parseBody(req) as { module?: string };
+        if (typeof body.module !== 'string' || !body.module) {
+            sendError(res, 400, 'Missing required field: module (base64-encoded .wasm)');
+            return;
+        }
+
+        const info = storeArtifact('wasm', Buffer.from(body.module, 'base64'));
+        sendJson(res, 201, info);
+    } catch (error) {
+        sendError(res, 400, (error as Error).message);
+    }
+}
+
+/**
+ * Download an artifact by hash, to audit exactly what a run (see its codeHash) executed.
+ * ?kind= picks one when the same content is stored as more than one kind.
+ */
+function handleGetArtifact(req: IncomingMessage, res: ServerResponse, hash: string): void {
+    if (!requireAdmin(req, res)) return;
+
+    const kind = new URL(req.url || '', `http://${req.headers.host}`).searchParams.get('kind');
+    const matches = listArtifacts().filter(a => a.hash === hash && (!kind || a.kind === kind));
+    if (matches.length > 1) {
+        sendError(res, 400, `Stored as ${matches.map(a => a.kind).join(', ')}; pick one with ?kind=`);
+        return;
+    }
+
+    const [info] = matches;
+    const content = info && readArtifact(hash, info.kind);
+    if (!info || !content) {
+        sendError(res, 404, 'Artifact not found');
+        return;
+    }
+
+    res.writeHead(200, {
+        'Content-Type': info.kind === 'wasm' ? 'application/wasm' : info.kind === 'file' ? 'application/octet-stream' : 'text/plain; charset=utf-8',
+        'Content-Length': content.length,
+    });
+    res.end(content);
+}
+
 async function handleStatus(res: ServerResponse): Promise<void> {
     const nodeStats = nodeRegistry.getStats();
     const dispatcherStats = getDispatcherStats();
@@ -107,10 +612,13 @@ async function handleStatus(res: ServerResponse): Promise<void> {
             total: nodeStats.total,
             online: nodeStats.online,
             idle: nodeRegistry.getIdleNodes().length,
+            placementStrategy: nodeRegistry.getPlacementStrategy(),
             list: nodes.map(n => ({
                 nodeId: n.nodeId,
                 status: n.status,
                 capabilities: n.capabilities,
+                labels: n.labels,
+                taints: n.taints,
             })),
         },
         agents: agents.map(a => ({
@@ -136,12 +644,16 @@ async function handleChat(req: IncomingMessage, res: ServerResponse): Promise<vo
     const config = getPaymentConfig();
 
     try {
-        const body = await parseBody(req) as { message?: string };
+        const body = await parseBody(req) as { message?: string; callbackUrl?: string };
 
         if (!body.message) {
             sendError(res, 400, 'Missing "message" field');
             return;
         }
+        if (body.callbackUrl !== undefined && !isValidCallbackUrl(body.callbackUrl)) {
+            sendError(res, 400, 'Invalid "callbackUrl" (must be a public http(s) URL)');
+            return;
+        }
 
         // Check user has enough credits
         if (config.enabled) {
@@ -164,58 +676,22 @@ async function handleChat(req: IncomingMessage, res: ServerResponse): Promise<vo
 
         logger.info('HTTP', `💬 Chat: "${body.message.slice(0, 50)}..."`);
 
-        // Execute multi-agent flow
-        const result = await executeMultiAgent(body.message);
+        // Callback mode: reply now, deliver the chat response by webhook
+        const { callbackUrl } = body;
+        if (callbackUrl) {
+            const chatId = `chat-${randomUUID().slice(0, 8)}`;
+            sendJson(res, 202, { success: true, chatId, status: 'PENDING', callbackUrl });
 
-        // Check if execution was successful (at least one agent responded)
-        if (!result.success || result.agentResults.length === 0) {
-            logger.warn('HTTP', `⚠️ No agents responded - NOT charging user`);
-            sendJson(res, 200, {
-                success: false,
-                message: result.finalResponse || 'No agents available for this request',
-                agentsUsed: result.agentsUsed,
-                charged: false,
-            });
+            completeChat(body.message, userWallet)
+                .then(response => sendWebhook(callbackUrl, 'chat.completed', chatId, { chatId, ...response }))
+                .catch(error => {
+                    logger.error('HTTP', `Chat error: ${(error as Error).message}`);
+                    sendWebhook(callbackUrl, 'chat.completed', chatId, { chatId, success: false, error: (error as Error).message });
+                });
             return;
         }
 
-        logger.info('HTTP', `✅ Chat complete (${result.agentsUsed.length} agents)`);
-
-        // SUCCESS: Now deduct credits and distribute
-        let paymentInfo = null;
-        if (config.enabled && userWallet) {
-            const deducted = deductBalance(userWallet, config.queryPriceUSDC);
-            if (deducted) {
-                // Distribute to orchestrator and agents
-                const distribution = await distributePayment(config.queryPriceUSDC, result.agentsUsed, userWallet);
-                paymentInfo = {
-                    charged: true,
-                    amount: config.queryPriceUSDC,
-                    newBalance: getUserBalance(userWallet)?.balance || 0,
-                    distribution: {
-                        total: distribution.totalAmount,
-                        orchestrator: distribution.orchestratorAmount,
-                        agents: distribution.agentPayments,
-                    },
-                };
-            }
-        }
-
-        // Generate queryHash for feedback tracking
-        const queryHash = Buffer.from(`${Date.now()}-${body.message.slice(0, 20)}`).toString('base64').slice(0, 16);
-
-        sendJson(res, 200, {
-            success: result.success,
-            message: result.finalResponse,
-            agentsUsed: result.agentsUsed,
-            queryHash,
-            agentResults: result.agentResults.map(r => ({
-                agent: r.agentName,
-                tools: r.toolCalls.map(t => t.tool),
-                summary: r.summary.slice(0, 200) + (r.summary.length > 200 ? '...' : ''),
-            })),
-            payment: paymentInfo,
-        });
+        sendJson(res, 200, await completeChat(body.message, userWallet));
     } catch (error) {
         logger.error('HTTP', `Chat error: ${(error as Error).message}`);
         // Error occurred - user is NOT charged
@@ -223,10 +699,90 @@ async function handleChat(req: IncomingMessage, res: ServerResponse): Promise<vo
     }
 }
 
+/**
+ * Run the multi-agent flow and charge the user on success. Returns the response body.
+ */
+async function completeChat(message: string, userWallet: string | undefined): Promise<Record<string, unknown>> {
+    const config = getPaymentConfig();
+
+    // Execute multi-agent flow
+    const result = await executeMultiAgent(message);
+
+    // Check if execution was successful (at least one agent responded)
+    if (!result.success || result.agentResults.length === 0) {
+        logger.warn('HTTP', `⚠️ No agents responded - NOT charging user`);
+        return {
+            success: false,
+            message: result.finalResponse || 'No agents available for this request',
+            agentsUsed: result.agentsUsed,
+            charged: false,
+        };
+    }
+
+    logger.info('HTTP', `✅ Chat complete (${result.agentsUsed.length} agents)`);
+
+    // SUCCESS: Now deduct credits and distribute
+    let paymentInfo = null;
+    if (config.enabled && userWallet) {
+        const deducted = deductBalance(userWallet, config.queryPriceUSDC);
+        if (deducted) {
+            // Distribute to orchestrator and agents
+            const distribution = await distributePayment(config.queryPriceUSDC, result.agentsUsed, userWallet);
+            paymentInfo = {
+                charged: true,
+                amount: config.queryPriceUSDC,
+                newBalance: getUserBalance(userWallet)?.balance || 0,
+                distribution: {
+                    total: distribution.totalAmount,
+                    orchestrator: distribution.orchestratorAmount,
+                    agents: distribution.agentPayments,
+                },
+            };
+        }
+    }
+
+    // Generate queryHash for feedback tracking
+    const queryHash = Buffer.from(`${Date.now()}-${message.slice(0, 20)}`).toString('base64').slice(0, 16);
+
+    return {
+        success: result.success,
+        message: result.finalResponse,
+        agentsUsed: result.agentsUsed,
+        queryHash,
+        agentResults: result.agentResults.map(r => ({
+            agent: r.agentName,
+            tools: r.toolCalls.map(t => t.tool),
+            summary: r.summary.slice(0, 200) + (r.summary.length > 200 ? '...' : ''),
+        })),
+        payment: paymentInfo,
+    };
+}
+
 // =============================================================================
 // Deposit Credits
 // =============================================================================
 
+/**
+ * Issue a nonce for a wallet to sign, proving ownership when it submits jobs.
+ */
+async function handleWalletChallenge(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'POST') {
+        sendError(res, 405, 'Method not allowed');
+        return;
+    }
+
+    try {
+        const body = await parseBody(req) as { address?: unknown };
+        if (typeof body.address !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(body.address)) {
+            sendError(res, 400, 'Missing or invalid "address" (0x-prefixed wallet address)');
+            return;
+        }
+        sendJson(res, 200, issueWalletChallenge(body.address));
+    } catch (error) {
+        sendError(res, 400, (error as Error).message);
+    }
+}
+
 async function handleDeposit(req: IncomingMessage, res: ServerResponse): Promise<void> {
     if (req.method !== 'POST') {
         sendError(res, 405, 'Method not allowed');
@@ -339,7 +895,7 @@ const server = createServer(async (req, res) => {
     // CORS
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Wallet-Address, X-Payment-Tx');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Wallet-Address, X-Wallet-Nonce, X-Wallet-Signature, X-Payment-Tx, X-Admin-Token');
 
     if (req.method === 'OPTIONS') {
         res.writeHead(204);
@@ -355,12 +911,108 @@ const server = createServer(async (req, res) => {
         }
 
         // Other routes
+        const cancelMatch = url.match(/^\/api\/jobs\/([^/]+)\/cancel\/?$/);
+        const eventsMatch = url.match(/^\/api\/jobs\/([^/]+)\/events\/?$/);
+        const jobArtifactsMatch = url.match(/^\/api\/jobs\/([^/]+)\/artifacts(?:\/([A-Za-z0-9_.-]+))?\/?$/);
+        const jobMatch = url.match(/^\/api\/jobs\/([^/?]+)\/?$/);
+        const deliveryMatch = url.match(/^\/api\/webhooks\/deliveries\/([^/?]+)\/?$/);
+        const revokeMatch = url.match(/^\/api\/nodes\/identities\/([^/]+)\/revoke\/?$/);
+        const labelsMatch = url.match(/^\/api\/nodes\/([^/]+)\/labels\/?$/);
+        const artifactMatch = url.match(/^\/api\/artifacts\/([0-9a-f]{64})\/?(\?.*)?$/);
         if (url === '/api/run' || url === '/api/run/') {
             await handleRun(req, res);
+        } else if (cancelMatch) {
+            await handleCancel(req, res, cancelMatch[1]);
+        } else if (eventsMatch) {
+            await handleJobEvents(req, res, eventsMatch[1]);
+        } else if (jobArtifactsMatch) {
+            await handleJobArtifacts(req, res, jobArtifactsMatch[1], jobArtifactsMatch[2]);
+        } else if (url === '/api/queue' || url === '/api/queue/') {
+            // Queue depth and jobs waiting for a node
+            sendJson(res, 200, {
+                stats: getQueueStats(),
+                pending: getPendingJobs().map(j => ({
+                    jobId: j.jobId,
+                    agentId: j.agentId,
+                    owner: j.owner,
+                    priority: j.priority,
+                    retryCount: j.retryCount,
+                    requiredCapabilities: j.requiredCapabilities,
+                    constraints: j.constraints,
+                    tolerations: j.tolerations,
+                    tools: j.tools,
+                    runtime: j.runtime,
+                    createdAt: j.createdAt,
+                })),
+            });
+        } else if (url === '/api/jobs/dead-letter' || url === '/api/jobs/dead-letter/') {
+            // Jobs that exhausted their retries
+            const jobs = getDeadLetterJobs().map(r => ({
+                jobId: r.job.jobId,
+                agentId: r.job.agentId,
+                input: r.job.input,
+                retryCount: r.job.retryCount,
+                lastNodeId: r.nodeId,
+                error: r.error,
+                createdAt: r.job.createdAt,
+                failedAt: r.completedAt,
+            }));
+            sendJson(res, 200, { jobs });
+        } else if (url.match(/^\/api\/jobs\/?(\?.*)?$/)) {
+            if (req.method === 'POST') {
+                await handleSubmitJob(req, res);
+            } else if (req.method === 'GET') {
+                await handleListJobs(req, res);
+            } else {
+                sendError(res, 405, 'Method not allowed');
+            }
+        } else if (jobMatch) {
+            await handleGetJob(req, res, jobMatch[1]);
+        } else if (url.match(/^\/api\/webhooks\/deliveries\/?(\?.*)?$/)) {
+            // Webhook delivery log
+            const params = new URL(req.url || '', `http://${req.headers.host}`).searchParams;
+            const deliveries = listDeliveries({
+                subjectId: params.get('jobId') || params.get('chatId') || undefined,
+                status: (params.get('status') || undefined) as WebhookDelivery['status'] | undefined,
+                limit: parseInt(params.get('limit') || '100', 10),
+            });
+            sendJson(res, 200, { deliveries });
+        } else if (deliveryMatch) {
+            const delivery = getDelivery(deliveryMatch[1]);
+            if (delivery) {
+                sendJson(res, 200, delivery);
+            } else {
+                sendError(res, 404, 'Delivery not found');
+            }
+        } else if (url === '/api/nodes/identities' || url === '/api/nodes/identities/') {
+            // Node identity bindings (admin)
+            if (requireAdmin(req, res)) {
+                sendJson(res, 200, { identities: getAllNodeIdentities() });
+            }
+        } else if (revokeMatch) {
+            await handleRevokeNode(req, res, decodeURIComponent(revokeMatch[1]));
+        } else if (labelsMatch) {
+            await handleNodeLabels(req, res, decodeURIComponent(labelsMatch[1]));
+        } else if (url === '/api/tools' || url === '/api/tools/') {
+            // Tool manifests advertised by connected nodes
+            const tools = nodeRegistry.getTools().map(({ manifest, nodeIds }) => ({ ...manifest, nodes: nodeIds }));
+            sendJson(res, 200, { tools });
+        } else if (url === '/api/modules' || url === '/api/modules/') {
+            await handleModules(req, res);
+        } else if (url.match(/^\/api\/artifacts\/?(\?.*)?$/)) {
+            // Stored agent scripts, wasm modules and job files
+            if (requireAdmin(req, res)) {
+                const kind = new URL(req.url || '', `http://${req.headers.host}`).searchParams.get('kind') || undefined;
+                sendJson(res, 200, { artifacts: listArtifacts(kind as ArtifactKind | undefined) });
+            }
+        } else if (artifactMatch) {
+            handleGetArtifact(req, res, artifactMatch[1]);
         } else if (url === '/api/chat' || url === '/api/chat/') {
             await handleChat(req, res);
         } else if (url === '/api/status' || url === '/api/status/') {
             await handleStatus(res);
+        } else if (url === '/api/wallet/challenge' || url === '/api/wallet/challenge/') {
+            await handleWalletChallenge(req, res);
         } else if (url === '/api/deposit' || url === '/api/deposit/') {
             await handleDeposit(req, res);
         } else if (url === '/api/feedback' || url === '/api/feedback/') {
@@ -423,6 +1075,21 @@ export function startHttpServer(): void {
         logger.info('HTTP', `🌐 HTTP API on port ${HTTP_PORT}`);
         logger.info('HTTP', `   POST /api/chat - Chat with Grok LLM`);
         logger.info('HTTP', `   POST /api/run - Submit job`);
+        logger.info('HTTP', `   POST /api/jobs - Submit job (async)`);
+        logger.info('HTTP', `   POST /api/wallet/challenge - Nonce to sign for X-Wallet-Address on job submissions`);
+        logger.info('HTTP', `   GET  /api/jobs - List your jobs, or all as admin (?agentId=&nodeId=&status=)`);
+        logger.info('HTTP', `   GET  /api/jobs/:id - Job status and result (submitting wallet or admin)`);
+        logger.info('HTTP', `   GET  /api/queue - Job queue`);
+        logger.info('HTTP', `   GET  /api/webhooks/deliveries - Webhook delivery log (?jobId=&status=)`);
+        logger.info('HTTP', `   GET  /api/jobs/dead-letter - Dead-lettered jobs`);
+        logger.info('HTTP', `   POST /api/jobs/:id/cancel - Cancel job (submitting wallet or admin)`);
+        logger.info('HTTP', `   GET  /api/jobs/:id/events - Stream job progress (SSE)`);
+        logger.info('HTTP', `   GET  /api/jobs/:id/artifacts - Files the job returned; /:name downloads one`);
+        logger.info('HTTP', `   POST /api/nodes/identities/:nodeId/revoke - Revoke node identity (admin)`);
+        logger.info('HTTP', `   GET  /api/nodes/:nodeId/labels - Node labels and taints (PUT to set, admin)`);
+        logger.info('HTTP', `   GET  /api/tools - Tool manifests from connected nodes`);
+        logger.info('HTTP', `   POST /api/modules - Upload a wasm module (GET to list, admin)`);
+        logger.info('HTTP', `   GET  /api/artifacts - Stored scripts, modules and job files (?kind=); /:hash downloads one (admin)`);
         logger.info('HTTP', `   GET  /api/status - Cluster status`);
         logger.info('HTTP', `   GET  /api/agents - List agents`);
         logger.info('HTTP', `   POST /api/agents - Create agent`);
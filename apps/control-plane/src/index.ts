@@ -12,26 +12,41 @@ import { join } from 'path';
 dotenvConfig({ path: join(process.cwd(), '../../.env') });
 
 import { WebSocketServer, WebSocket } from 'ws';
+import { randomBytes } from 'crypto';
 import { config } from '@terminus/config';
 import {
+    type AuthChallengeMessage,
     type AuthMessage,
     type HeartbeatMessage,
     type TerminusMessage,
     type AuthAckMessage,
     type HeartbeatAckMessage,
     type ErrorMessage,
-    type JobResultMessage,
-    type AgentJobResultMessage,
+    type JobProgressMessage,
+    type ResultAckMessage,
+    type FetchArtifactMessage,
+    type ArtifactMessage,
+    type ValidationIssue,
+    type ProtocolFeature,
+    PROTOCOL_VERSION,
+    LEGACY_PROTOCOL_VERSION,
+    negotiateProtocolVersion,
     parseMessage,
     serializeMessage,
     createBaseMessage,
 } from '@terminus/protocol';
 import { nodeRegistry } from './registry.js';
 import { logger } from './logger.js';
-import { handleJobResult } from './dispatcher.js';
+import { handleJobResult, failNodeJobs, stopScheduler, assignedArtifactKind, isRunAssigned } from './dispatcher.js';
+import { readArtifact } from './artifact-store.js';
+import { recordJobEvent } from './job-events.js';
 import { startHttpServer, stopHttpServer } from './http.js';
-import { recordNodeConnection, recordNodeDisconnection } from './monitor.js';
-import { verifyAgentOwnership, verifyWalletSignature } from './nft/agent-nft.js';
+import { recordNodeConnection, recordNodeDisconnection, recordNodeTimeout } from './monitor.js';
+import { verifyAgentOwnership, verifyWalletSignature, getAgentReputation } from './nft/agent-nft.js';
+import { checkNodeIdentity, checkSharedSecretNode } from './node-identity.js';
+import { getNodeLabels } from './node-labels.js';
+import { issueSession, resumeSession, holdSession, endSession } from './sessions.js';
+import { failNodeAgentJobs, getAgentJobNode, handleAgentJobResult } from './agent-jobs.js';
 
 // NFT requirement flag
 const REQUIRE_NFT = process.env.REQUIRE_AGENT_NFT === 'true';
@@ -47,6 +62,12 @@ logger.info('Control Plane', `🚀 WebSocket server listening on port ${config.c
 // Track pending auth timeouts
 const authTimeouts = new Map<WebSocket, NodeJS.Timeout>();
 
+// Outstanding AUTH_CHALLENGE nonces (single-use, consumed by the first AUTH)
+const authChallenges = new Map<WebSocket, AuthChallengeMessage['payload']>();
+
+// Outstanding latency pings: the nonce the pong must echo and when it was sent
+const latencyProbes = new Map<WebSocket, { nonce: Buffer; sentAt: number }>();
+
 // -----------------------------------------------------------------------------
 // Connection Handler
 // -----------------------------------------------------------------------------
@@ -63,18 +84,21 @@ wss.on('connection', (socket: WebSocket) => {
 
     authTimeouts.set(socket, authTimeout);
 
+    // Challenge the node to sign a fresh nonce with its identity key
+    sendAuthChallenge(socket);
+
     // Handle incoming messages
     socket.on('message', (data: Buffer) => {
         const raw = data.toString();
-        const message = parseMessage(raw);
+        const result = parseMessage(raw);
 
-        if (!message) {
-            logger.warn('Protocol', '⚠️ Invalid message format received');
-            sendError(socket, 'INVALID_MESSAGE', 'Could not parse message', false);
+        if (!result.success) {
+            logger.warn('Protocol', `⚠️ Rejected message: ${result.error.message}`);
+            sendError(socket, result.error.code, result.error.message, false, result.error.issues);
             return;
         }
 
-        handleMessage(socket, message);
+        handleMessage(socket, result.message);
     });
 
     // Handle disconnection
@@ -85,16 +109,36 @@ wss.on('connection', (socket: WebSocket) => {
             clearTimeout(timeout);
             authTimeouts.delete(socket);
         }
+        authChallenges.delete(socket);
+        latencyProbes.delete(socket);
 
-        // Find and remove node from registry
         const nodeId = nodeRegistry.findNodeIdBySocket(socket);
-        if (nodeId) {
-            recordNodeDisconnection(nodeId);
-            nodeRegistry.unregister(nodeId);
-            logger.connection(nodeId, 'disconnected');
+        if (!nodeId) return;
+
+        // Resumable nodes keep their pending jobs for a grace window
+        if (nodeRegistry.hasFeature(nodeId, 'session-resume')) {
+            nodeRegistry.markOffline(nodeId);
+            nodeRegistry.detachSocket(nodeId);
+            holdSession(nodeId, config.timing.sessionResumeGrace, () => {
+                recordNodeDisconnection(nodeId);
+                nodeRegistry.unregister(nodeId);
+                failInFlightJobs(nodeId, `Node ${nodeId} disconnected`);
+                logger.connection(nodeId, 'disconnected');
+            });
+            return;
         }
+
+        // Find and remove node from registry
+        // Reaped nodes already recorded TIMED_OUT and failed their jobs
+        const reaped = nodeRegistry.get(nodeId)?.status === 'OFFLINE';
+        if (!reaped) recordNodeDisconnection(nodeId);
+        nodeRegistry.unregister(nodeId);
+        if (!reaped) failInFlightJobs(nodeId, `Node ${nodeId} disconnected`);
+        logger.connection(nodeId, 'disconnected');
     });
 
+    socket.on('pong', (data: Buffer) => handlePong(socket, data));
+
     // Handle errors
     socket.on('error', (err) => {
         logger.error('Socket', `Socket error: ${err.message}`);
@@ -108,28 +152,56 @@ wss.on('connection', (socket: WebSocket) => {
 function handleMessage(socket: WebSocket, message: TerminusMessage): void {
     switch (message.type) {
         case 'AUTH':
-            handleAuth(socket, message as AuthMessage);
+            handleAuth(socket, message);
             break;
         case 'HEARTBEAT':
-            handleHeartbeat(socket, message as HeartbeatMessage);
+            handleHeartbeat(socket, message);
             break;
-        case 'JOB_RESULT':
-            handleJobResult(message as JobResultMessage);
+        case 'JOB_RESULT': {
+            const nodeId = findSender(socket, message);
+            if (nodeId && handleJobResult(nodeId, message)) {
+                sendResultAck(socket, message.payload.runId);
+            }
             break;
-        case 'AGENT_JOB_RESULT':
-            handleAgentJobResult(message as AgentJobResultMessage);
+        }
+        case 'JOB_PROGRESS': {
+            const nodeId = findSender(socket, message);
+            if (nodeId) handleJobProgress(nodeId, message);
+            break;
+        }
+        case 'AGENT_JOB_RESULT': {
+            const nodeId = findSender(socket, message);
+            if (nodeId && handleAgentJobResult(nodeId, message)) {
+                sendResultAck(socket, message.payload.jobId);
+            }
+            break;
+        }
+        case 'FETCH_ARTIFACT':
+            handleFetchArtifact(socket, message);
             break;
         default:
             logger.warn('Protocol', `Unexpected message type: ${message.type}`);
     }
 }
 
+/**
+ * The node a job message came from. Messages from sockets that haven't
+ * authenticated (or whose node was evicted) are dropped.
+ */
+function findSender(socket: WebSocket, message: TerminusMessage): string | undefined {
+    const nodeId = nodeRegistry.findNodeIdBySocket(socket);
+    if (!nodeId) {
+        logger.warn('Protocol', `❌ ${message.type} from unregistered socket dropped`);
+    }
+    return nodeId;
+}
+
 // -----------------------------------------------------------------------------
 // Auth Handler
 // -----------------------------------------------------------------------------
 
 async function handleAuth(socket: WebSocket, message: AuthMessage): Promise<void> {
-    const { nodeId, capabilities, agentTypes, wallet, secret, version } = message.payload;
+    const { nodeId, capabilities, agentTypes, wallet, secret, version, features, specs } = message.payload;
 
     // Clear auth timeout
     const timeout = authTimeouts.get(socket);
@@ -138,17 +210,27 @@ async function handleAuth(socket: WebSocket, message: AuthMessage): Promise<void
         authTimeouts.delete(socket);
     }
 
-    // Validate secret (simple check for now)
-    if (secret !== config.auth.nodeSecret) {
-        logger.warn('Auth', `❌ Invalid secret from ${nodeId}`);
-        sendAuthAck(socket, message.traceId, false, 'Invalid credentials');
+    // Negotiate protocol version before anything else so old nodes get a clear upgrade hint
+    const nodeProtocolVersion = message.payload.protocolVersion ?? LEGACY_PROTOCOL_VERSION;
+    const negotiation = negotiateProtocolVersion(
+        nodeProtocolVersion,
+        { min: config.protocol.minVersion, max: PROTOCOL_VERSION },
+        features
+    );
+    if (!negotiation.ok) {
+        logger.warn('Auth', `❌ ${nodeId} rejected: protocol ${nodeProtocolVersion} unsupported`);
+        sendError(socket, 'UNSUPPORTED_PROTOCOL_VERSION', negotiation.reason, true);
         socket.close();
         return;
     }
 
-    // Wallet signature verification (if wallet is provided)
+    // Consume the challenge so a signature can never be replayed
+    const challenge = authChallenges.get(socket);
+    authChallenges.delete(socket);
+
+    // Wallet nodes must sign the challenge nonce; wallet-less nodes may fall back to the shared secret
     const { walletSignature } = message.payload;
-    if (REQUIRE_NFT && wallet) {
+    if (wallet) {
         if (!walletSignature) {
             logger.warn('Auth', `❌ ${nodeId} rejected: no wallet signature provided`);
             sendAuthAck(socket, message.traceId, false, 'Wallet signature required');
@@ -156,14 +238,43 @@ async function handleAuth(socket: WebSocket, message: AuthMessage): Promise<void
             return;
         }
 
-        const sigVerification = verifyWalletSignature(nodeId, wallet, walletSignature);
+        if (!challenge || Date.now() > challenge.expiresAt) {
+            logger.warn('Auth', `❌ ${nodeId} rejected: auth challenge missing or expired`);
+            sendAuthAck(socket, message.traceId, false, 'Auth challenge expired');
+            socket.close();
+            return;
+        }
+
+        const sigVerification = verifyWalletSignature(nodeId, wallet, walletSignature, challenge.nonce);
         if (!sigVerification.valid) {
             logger.warn('Auth', `❌ ${nodeId} rejected: invalid wallet signature`);
             sendAuthAck(socket, message.traceId, false, `Signature verification failed: ${sigVerification.error}`);
             socket.close();
             return;
         }
-        logger.info('Auth', `🔐 Wallet ownership verified via signature`);
+
+        const identity = checkNodeIdentity(nodeId, wallet);
+        if (!identity.valid) {
+            logger.warn('Auth', `❌ ${nodeId} rejected: ${identity.error}`);
+            sendAuthAck(socket, message.traceId, false, identity.error);
+            socket.close();
+            return;
+        }
+        logger.info('Auth', `🔐 Node identity verified via signed challenge`);
+    } else if (config.auth.allowSharedSecret && secret === config.auth.nodeSecret) {
+        const identityError = checkSharedSecretNode(nodeId);
+        if (identityError) {
+            logger.warn('Auth', `❌ ${nodeId} rejected: ${identityError}`);
+            sendAuthAck(socket, message.traceId, false, identityError);
+            socket.close();
+            return;
+        }
+        logger.warn('Auth', `⚠️ ${nodeId} authenticated with the legacy shared secret`);
+    } else {
+        logger.warn('Auth', `❌ Invalid credentials from ${nodeId}`);
+        sendAuthAck(socket, message.traceId, false, 'Invalid credentials: a signed auth challenge is required');
+        socket.close();
+        return;
     }
 
     // NFT verification (if enabled)
@@ -184,11 +295,68 @@ async function handleAuth(socket: WebSocket, message: AuthMessage): Promise<void
         }
     }
 
+    // A node ID that is still connected can only be taken over by the same wallet
+    // (e.g. reconnecting from a half-open connection); anyone else is turned away
+    const previousSocket = nodeRegistry.getSocket(nodeId);
+    if (previousSocket && previousSocket !== socket) {
+        const registeredWallet = nodeRegistry.get(nodeId)?.wallet;
+        if (!wallet || !registeredWallet || wallet.toLowerCase() !== registeredWallet.toLowerCase()) {
+            logger.warn('Auth', `❌ ${nodeId} rejected: already connected under another identity`);
+            sendAuthAck(socket, message.traceId, false, `Node ID ${nodeId} is already connected`);
+            socket.close();
+            return;
+        }
+    }
+
+    // Resume the previous session if the node presents its token; otherwise any
+    // jobs still bound to an earlier connection are lost with that connection
+    const { sessionToken } = message.payload;
+    const resumed = negotiation.features.includes('session-resume')
+        && sessionToken !== undefined
+        && resumeSession(nodeId, sessionToken);
+    if (!resumed && nodeRegistry.get(nodeId)) {
+        nodeRegistry.markOffline(nodeId);
+        endSession(nodeId);
+        failInFlightJobs(nodeId, `Node ${nodeId} started a new session`);
+    }
+
+    // Nodes that predate 'concurrent-jobs' run one job at a time
+    const maxConcurrentJobs = negotiation.features.includes('concurrent-jobs')
+        ? Math.min(message.payload.maxConcurrentJobs ?? 1, config.scheduling.maxConcurrentPerNode)
+        : 1;
+
+    // Keep manifests only for tools the node actually advertises
+    const tools = negotiation.features.includes('tool-manifests')
+        ? (message.payload.tools ?? []).filter(t => capabilities.includes(`tool:${t.name}`))
+        : [];
+
     // Register node
-    nodeRegistry.register(nodeId, socket, { capabilities, agentTypes, wallet, version });
+    nodeRegistry.register(nodeId, socket, {
+        capabilities,
+        agentTypes,
+        wallet,
+        version,
+        protocolVersion: negotiation.version,
+        features: negotiation.features,
+        specs,
+        tools,
+        maxConcurrentJobs,
+        ...getNodeLabels(nodeId),
+    });
+    // The old connection (same wallet, checked above) no longer maps to the node,
+    // so its close handler leaves the new session alone; terminate it in case it is half-open
+    if (previousSocket && previousSocket !== socket) {
+        previousSocket.terminate();
+    }
     recordNodeConnection(nodeId, agentTypes || []);
+    void refreshNodeReputation(nodeId, agentTypes || []);
     logger.connection(nodeId, 'authorized');
+    if (resumed) {
+        logger.info('Session', `▶️ Node ${nodeId} resumed its session`);
+    }
+    logger.info('Protocol', `🤝 Node ${nodeId} protocol ${negotiation.version} (features: [${negotiation.features.join(', ')}])`);
     logger.info('Capabilities', `📦 Node ${nodeId} capabilities: [${capabilities.join(', ')}]`);
+    logger.info('Capabilities', `🧮 Node ${nodeId} runs up to ${maxConcurrentJobs} job(s) at once`);
     if (agentTypes?.length) {
         logger.info('Agents', `🤖 Node ${nodeId} agents: [${agentTypes.join(', ')}]`);
     }
@@ -197,7 +365,28 @@ async function handleAuth(socket: WebSocket, message: AuthMessage): Promise<void
     }
 
     // Send success acknowledgment
-    sendAuthAck(socket, message.traceId, true, undefined, config.timing.heartbeatInterval);
+    sendAuthAck(socket, message.traceId, true, undefined, {
+        heartbeatInterval: config.timing.heartbeatInterval,
+        protocolVersion: negotiation.version,
+        features: negotiation.features,
+        ...(negotiation.features.includes('session-resume') && {
+            sessionToken: resumed ? sessionToken : issueSession(nodeId),
+            resumed,
+        }),
+    });
+}
+
+/**
+ * Seed a node's placement reputation from the on-chain reputation (0-5) of the
+ * agents it hosts. Agents without reviews are ignored.
+ */
+async function refreshNodeReputation(nodeId: string, agentTypes: string[]): Promise<void> {
+    const reputations = await Promise.all(agentTypes.map(getAgentReputation));
+    const scores = reputations.filter(r => r && r.count > 0).map(r => r!.score);
+    if (scores.length === 0) return;
+
+    const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    nodeRegistry.setReputation(nodeId, average / 5);
 }
 
 // -----------------------------------------------------------------------------
@@ -224,21 +413,123 @@ function handleHeartbeat(socket: WebSocket, message: HeartbeatMessage): void {
 
     // Send acknowledgment
     sendHeartbeatAck(socket, message.traceId);
+    probeLatency(socket, nodeId);
+}
+
+/**
+ * Ping the node to time a round trip (the node's own timestamps can't be trusted).
+ * Each ping carries a fresh nonce, so unsolicited early pongs don't count; a ping
+ * still unanswered at the next heartbeat counts as at least that slow.
+ */
+function probeLatency(socket: WebSocket, nodeId: string): void {
+    if (socket.readyState !== WebSocket.OPEN) return;
+
+    const outstanding = latencyProbes.get(socket);
+    if (outstanding) {
+        nodeRegistry.recordLatency(nodeId, Date.now() - outstanding.sentAt);
+    }
+
+    const nonce = randomBytes(8);
+    latencyProbes.set(socket, { nonce, sentAt: Date.now() });
+    socket.ping(nonce);
+}
+
+function handlePong(socket: WebSocket, data: Buffer): void {
+    const probe = latencyProbes.get(socket);
+    if (!probe || !data.equals(probe.nonce)) return;
+
+    latencyProbes.delete(socket);
+    const nodeId = nodeRegistry.findNodeIdBySocket(socket);
+    if (nodeId) nodeRegistry.recordLatency(nodeId, Date.now() - probe.sentAt);
+}
+
+// -----------------------------------------------------------------------------
+// Artifact Handler
+// -----------------------------------------------------------------------------
+
+/**
+ * Serve agent code to a node. Only artifacts its in-flight jobs run are served,
+ * so a node can't read other agents' code by guessing hashes.
+ */
+function handleFetchArtifact(socket: WebSocket, message: FetchArtifactMessage): void {
+    const nodeId = nodeRegistry.findNodeIdBySocket(socket);
+    if (!nodeId) {
+        logger.warn('Artifacts', '❌ Artifact fetch from unregistered node');
+        return;
+    }
+
+    const { hash } = message.payload;
+    const kind = assignedArtifactKind(nodeId, hash);
+    const content = kind && readArtifact(hash, kind);
+    if (!content) {
+        logger.warn('Artifacts', `⚠️ Refused artifact ${hash.slice(0, 12)} to ${nodeId}`);
+    }
+
+    const response: ArtifactMessage = {
+        ...createBaseMessage('ARTIFACT', message.traceId),
+        type: 'ARTIFACT',
+        payload: content
+            ? { hash, content: content.toString('base64') }
+            : { hash, error: 'Artifact not found or not assigned to this node' },
+    };
+    socket.send(serializeMessage(response));
 }
 
 // -----------------------------------------------------------------------------
 // Response Helpers
 // -----------------------------------------------------------------------------
 
-function sendAuthAck(socket: WebSocket, traceId: string, success: boolean, message?: string, heartbeatInterval?: number): void {
+function sendAuthChallenge(socket: WebSocket): void {
+    const payload = {
+        nonce: randomBytes(32).toString('hex'),
+        expiresAt: Date.now() + config.timing.authTimeout,
+    };
+    authChallenges.set(socket, payload);
+
+    const challenge: AuthChallengeMessage = {
+        ...createBaseMessage('AUTH_CHALLENGE'),
+        type: 'AUTH_CHALLENGE',
+        payload,
+    };
+    socket.send(serializeMessage(challenge));
+}
+
+function sendAuthAck(
+    socket: WebSocket,
+    traceId: string,
+    success: boolean,
+    message?: string,
+    session?: {
+        heartbeatInterval: number;
+        protocolVersion: string;
+        features: ProtocolFeature[];
+        sessionToken?: string;
+        resumed?: boolean;
+    }
+): void {
     const response: AuthAckMessage = {
         ...createBaseMessage('AUTH_ACK', traceId),
         type: 'AUTH_ACK',
-        payload: { success, message, heartbeatInterval },
+        payload: { success, message, ...session },
     };
     socket.send(serializeMessage(response));
 }
 
+/**
+ * Acknowledge a result so the node drops it from its outbox (duplicates included).
+ */
+function sendResultAck(socket: WebSocket, runId: string): void {
+    const nodeId = nodeRegistry.findNodeIdBySocket(socket);
+    if (!nodeId || !nodeRegistry.hasFeature(nodeId, 'session-resume')) return;
+
+    const ack: ResultAckMessage = {
+        ...createBaseMessage('RESULT_ACK'),
+        type: 'RESULT_ACK',
+        payload: { runId },
+    };
+    socket.send(serializeMessage(ack));
+}
+
 function sendHeartbeatAck(socket: WebSocket, traceId: string): void {
     const response: HeartbeatAckMessage = {
         ...createBaseMessage('HEARTBEAT_ACK', traceId),
@@ -248,11 +539,11 @@ function sendHeartbeatAck(socket: WebSocket, traceId: string): void {
     socket.send(serializeMessage(response));
 }
 
-function sendError(socket: WebSocket, code: string, message: string, fatal: boolean): void {
+function sendError(socket: WebSocket, code: string, message: string, fatal: boolean, issues?: ValidationIssue[]): void {
     const response: ErrorMessage = {
         ...createBaseMessage('ERROR'),
         type: 'ERROR',
-        payload: { code, message, fatal },
+        payload: { code, message, fatal, issues },
     };
     socket.send(serializeMessage(response));
 }
@@ -264,95 +555,62 @@ function sendError(socket: WebSocket, code: string, message: string, fatal: bool
 startHttpServer();
 
 // -----------------------------------------------------------------------------
-// Pending Agent Jobs (for distributed execution)
+// Job Failure & Progress
 // -----------------------------------------------------------------------------
 
-interface PendingAgentJob {
-    jobId: string;
-    agentType: string;
-    resolve: (result: { success: boolean; response: string; toolsUsed?: unknown[] }) => void;
-    reject: (error: Error) => void;
-    timeout: NodeJS.Timeout;
-}
-
-const pendingAgentJobs = new Map<string, PendingAgentJob>();
-
-export function dispatchAgentJob(
-    agentType: string,
-    userQuery: string,
-    timeoutMs: number = 60000
-): Promise<{ success: boolean; response: string; toolsUsed?: unknown[] }> {
-    return new Promise((resolve, reject) => {
-        // Find a node that can run this agent type
-        const node = nodeRegistry.getIdleNodeForAgent(agentType);
-
-        if (!node) {
-            // No remote node available
-            reject(new Error(`No node available for agent: ${agentType}`));
-            return;
-        }
-
-        const socket = nodeRegistry.getSocket(node.nodeId);
-        if (!socket) {
-            reject(new Error(`No socket for node: ${node.nodeId}`));
-            return;
-        }
-
-        const jobId = `agent-job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-
-        // Set timeout
-        const timeout = setTimeout(() => {
-            pendingAgentJobs.delete(jobId);
-            reject(new Error(`Agent job timed out: ${jobId}`));
-        }, timeoutMs);
-
-        // Store pending job
-        pendingAgentJobs.set(jobId, {
-            jobId,
-            agentType,
-            resolve,
-            reject,
-            timeout,
-        });
-
-        // Send job to node
-        const message = {
-            type: 'AGENT_JOB',
-            traceId: `trace-${Date.now()}`,
-            timestamp: Date.now(),
-            payload: {
-                jobId,
-                agentType,
-                userQuery,
-            },
-        };
-
-        socket.send(JSON.stringify(message));
-        logger.info('AgentDispatch', `📤 Job ${jobId} sent to ${node.nodeId} for ${agentType}`);
-    });
+function failInFlightJobs(nodeId: string, reason: string): void {
+    const failed = [...failNodeJobs(nodeId, reason), ...failNodeAgentJobs(nodeId, reason)];
+    if (failed.length > 0) {
+        logger.warn('Reaper', `💥 Lost ${failed.length} in-flight job(s) on ${nodeId}: ${failed.join(', ')}`);
+    }
 }
 
-function handleAgentJobResult(message: AgentJobResultMessage): void {
-    const { jobId, success, response, error } = message.payload;
-
-    const pending = pendingAgentJobs.get(jobId);
-    if (!pending) {
-        logger.warn('AgentDispatch', `❓ Unknown job result: ${jobId}`);
+/**
+ * Record a progress event, if the job is in flight on the node that sent it.
+ * Agent jobs run as a single run whose ID is the job ID.
+ */
+function handleJobProgress(nodeId: string, message: JobProgressMessage): void {
+    const { jobId, event } = message.payload;
+
+    const agentJobNode = getAgentJobNode(jobId);
+    const assigned = agentJobNode
+        ? agentJobNode === nodeId && event.runId === jobId
+        : isRunAssigned(nodeId, jobId, event.runId);
+    if (!assigned) {
+        logger.warn('JobEvents', `⛔ ${nodeId} sent progress for ${jobId}, which it isn't running; dropped`);
         return;
     }
 
-    clearTimeout(pending.timeout);
-    pendingAgentJobs.delete(jobId);
+    recordJobEvent(jobId, event);
+}
 
-    if (success) {
-        logger.info('AgentDispatch', `✅ Job ${jobId} completed`);
-        pending.resolve({ success: true, response, toolsUsed: message.payload.toolsUsed });
-    } else {
-        logger.error('AgentDispatch', `❌ Job ${jobId} failed: ${error?.message}`);
-        pending.reject(new Error(error?.message || 'Agent job failed'));
+// -----------------------------------------------------------------------------
+// Heartbeat Reaper
+// -----------------------------------------------------------------------------
+
+/**
+ * Evict nodes that stopped heartbeating. Half-dead connections (e.g. behind NAT)
+ * never deliver a TCP close, so the socket is terminated rather than closed.
+ */
+function reapStaleNodes(): void {
+    const now = Date.now();
+
+    for (const node of nodeRegistry.getStaleNodes(config.timing.heartbeatTimeout, now)) {
+        const heartbeatAge = now - node.lastHeartbeat;
+        logger.warn('Reaper', `💀 ${node.nodeId} missed heartbeats for ${heartbeatAge}ms, evicting`);
+
+        recordNodeTimeout(node.nodeId, heartbeatAge);
+        nodeRegistry.markOffline(node.nodeId);
+        // Resumable nodes keep their jobs through the session grace window (see close handler)
+        if (!nodeRegistry.hasFeature(node.nodeId, 'session-resume')) {
+            failInFlightJobs(node.nodeId, `Node ${node.nodeId} timed out`);
+        }
+        nodeRegistry.getSocket(node.nodeId)?.terminate();
     }
 }
 
+const reaperInterval = setInterval(reapStaleNodes, config.timing.heartbeatInterval);
+
 // -----------------------------------------------------------------------------
 // Graceful Shutdown
 // -----------------------------------------------------------------------------
@@ -360,6 +618,9 @@ function handleAgentJobResult(message: AgentJobResultMessage): void {
 process.on('SIGINT', async () => {
     logger.info('Control Plane', '🛑 Shutting down...');
 
+    clearInterval(reaperInterval);
+    stopScheduler();
+
     await stopHttpServer();
 
     wss.close(() => {
@@ -0,0 +1,113 @@
+// =============================================================================
+// TERMINUS CONTROL PLANE - Job Events
+// =============================================================================
+// Buffers JOB_PROGRESS events per job and fans them out to HTTP subscribers.
+// =============================================================================
+
+import type { RunEvent } from '@terminus/protocol';
+import { logger } from './logger.js';
+
+export interface JobEventListener {
+    onEvent: (event: RunEvent) => void;
+    onEnd: () => void;
+}
+
+interface JobEventStream {
+    events: RunEvent[];
+    lastSeq: Map<string, number>;      // Per runId: a retried job restarts seq on its new run
+    done: boolean;
+    listeners: Set<JobEventListener>;
+}
+
+const MAX_EVENTS_PER_JOB = 1000;
+const RETENTION_MS = 5 * 60 * 1000;   // Keep finished streams around for late subscribers
+
+const streams = new Map<string, JobEventStream>();
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+/**
+ * Start buffering events for a job. Called when the job is dispatched.
+ */
+export function openJobEvents(jobId: string): void {
+    if (!streams.has(jobId)) {
+        streams.set(jobId, { events: [], lastSeq: new Map(), done: false, listeners: new Set() });
+    }
+}
+
+export function recordJobEvent(jobId: string, event: RunEvent): void {
+    const stream = streams.get(jobId);
+
+    if (!stream) {
+        logger.warn('JobEvents', `❓ Event for unknown job ${jobId}`);
+        return;
+    }
+    if (stream.done) {
+        logger.warn('JobEvents', `⚠️ Event for finished job ${jobId} ignored`);
+        return;
+    }
+
+    // Drop duplicates and anything older than what we've already seen
+    if (event.seq <= (stream.lastSeq.get(event.runId) ?? 0)) return;
+    stream.lastSeq.set(event.runId, event.seq);
+
+    stream.events.push(event);
+    if (stream.events.length > MAX_EVENTS_PER_JOB) {
+        stream.events.shift();
+    }
+
+    for (const listener of stream.listeners) {
+        listener.onEvent(event);
+    }
+}
+
+/**
+ * Mark a job's stream as finished and notify subscribers.
+ */
+export function endJobEvents(jobId: string): void {
+    const stream = streams.get(jobId);
+    if (!stream || stream.done) return;
+
+    stream.done = true;
+    for (const listener of stream.listeners) {
+        listener.onEnd();
+    }
+    stream.listeners.clear();
+
+    setTimeout(() => streams.delete(jobId), RETENTION_MS).unref();
+}
+
+// =============================================================================
+// Subscription
+// =============================================================================
+
+/**
+ * Subscribe to a job's events. Buffered events are replayed first.
+ * Returns an unsubscribe function.
+ */
+export function subscribeJobEvents(jobId: string, listener: JobEventListener): () => void {
+    const stream = streams.get(jobId);
+    if (!stream) {
+        listener.onEnd();
+        return () => { };
+    }
+
+    stream.events.forEach(e => listener.onEvent(e));
+    if (stream.done) {
+        listener.onEnd();
+        return () => { };
+    }
+
+    stream.listeners.add(listener);
+    return () => stream.listeners.delete(listener);
+}
+
+export function getJobEvents(jobId: string): RunEvent[] {
+    return [...(streams.get(jobId)?.events ?? [])];
+}
+
+export function hasJobEvents(jobId: string): boolean {
+    return streams.has(jobId);
+}
@@ -2,10 +2,23 @@
 // TERMINUS CONTROL PLANE - Job Queue with Retry
 // =============================================================================
 // Manages job queue, retries, timeouts, and dead letter queue.
+// The dispatcher's scheduler pulls from here and owns the per-run timers.
+// Jobs are handed out by weighted fair queuing across owners (the submitting
+// wallet), weighted by priority class, with a per-owner concurrency cap.
 // =============================================================================
 
+import { config } from '@terminus/config';
+import type { ContainerSpec, JobRuntime, RegisteredNode, WasmSpec } from '@terminus/protocol';
+import { canPlace } from './registry.js';
 import { logger } from './logger.js';
 
+export type JobPriority = 'HIGH' | 'NORMAL' | 'LOW';
+
+export const JOB_PRIORITIES: JobPriority[] = ['HIGH', 'NORMAL', 'LOW'];
+
+// Jobs submitted without a wallet share one flow and aren't subject to the per-user cap
+export const ANONYMOUS_OWNER = 'anonymous';
+
 export interface QueuedJob {
     jobId: string;
     runId: string;
@@ -16,11 +29,21 @@ export interface QueuedJob {
     maxRetries: number;
     createdAt: number;
     requiredCapabilities: string[];
+    constraints: string[];           // Node label rules, see parseConstraint
+    tolerations: string[];           // Node taints this job may run on
+    tools: string[];                 // Tools the agent's script may call
+    runtime: JobRuntime;             // Language of the agent's script
+    scriptHash?: string;             // Agent script at submission (artifact hash)
+    container?: ContainerSpec;       // Image and limits for the container runtime
+    wasm?: WasmSpec;                 // Module and fuel budget for the wasm runtime
+    toolCall?: { tool: string; params?: unknown };   // Run a node tool directly instead of the script
+    owner: string;
+    priority: JobPriority;
 }
 
 export type JobStatus = 'PENDING' | 'RUNNING' | 'SUCCESS' | 'FAILED' | 'TIMEOUT' | 'DEAD';
 
-interface JobRecord {
+export interface JobRecord {
     job: QueuedJob;
     status: JobStatus;
     nodeId?: string;
@@ -41,6 +64,47 @@ const deadLetterQueue: JobRecord[] = [];
 
 const DEFAULT_TIMEOUT = 30000; // 30 seconds
 const DEFAULT_MAX_RETRIES = 3;
+const MAX_COMPLETED_JOBS = 1000;      // Oldest records are evicted beyond these
+const MAX_DEAD_LETTERS = 1000;
+
+// =============================================================================
+// Fair Queuing
+// =============================================================================
+// Each owner has a virtual finish time. A job's start tag is the later of the
+// owner's finish time and the global virtual clock; the lowest start tag is served
+// next and advances the owner by 1/weight. HIGH jobs therefore get 4x the share of
+// LOW ones, idle owners don't bank credit, and no owner is ever starved.
+
+const ownerFinishTimes = new Map<string, number>();
+let virtualClock = 0;
+
+function startTag(owner: string): number {
+    return Math.max(virtualClock, ownerFinishTimes.get(owner) ?? 0);
+}
+
+function runningCountByOwner(): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const record of runningJobs.values()) {
+        counts.set(record.job.owner, (counts.get(record.job.owner) ?? 0) + 1);
+    }
+    return counts;
+}
+
+function isAtConcurrencyCap(owner: string, running: Map<string, number>): boolean {
+    const cap = config.scheduling.maxConcurrentPerUser;
+    return owner !== ANONYMOUS_OWNER && cap > 0 && (running.get(owner) ?? 0) >= cap;
+}
+
+function advanceOwner(job: QueuedJob): void {
+    const start = startTag(job.owner);
+    virtualClock = start;
+    ownerFinishTimes.set(job.owner, start + 1 / config.scheduling.priorityWeights[job.priority]);
+
+    // Owners that fell behind the clock start from it anyway
+    for (const [owner, finish] of ownerFinishTimes) {
+        if (finish <= virtualClock) ownerFinishTimes.delete(owner);
+    }
+}
 
 // =============================================================================
 // Queue Operations
@@ -55,19 +119,52 @@ export function enqueue(job: Omit<QueuedJob, 'retryCount' | 'maxRetries' | 'crea
     };
 
     pendingQueue.push(queuedJob);
-    logger.info('Queue', `📥 Enqueued ${job.jobId} (pending: ${pendingQueue.length})`);
+    logger.info('Queue', `📥 Enqueued ${job.jobId} for ${job.owner} [${job.priority}] (pending: ${pendingQueue.length})`);
     return queuedJob;
 }
 
-export function dequeue(capabilities: string[]): QueuedJob | null {
-    // Find first job that matches node capabilities
-    const index = pendingQueue.findIndex(job =>
-        job.requiredCapabilities.every(cap => capabilities.includes(cap))
-    );
+/**
+ * canPlace for one queued job. A malformed job is skipped (and left to its queue
+ * timeout) rather than failing the scheduler pass for every other job.
+ */
+function isPlaceable(node: RegisteredNode, job: QueuedJob): boolean {
+    try {
+        return canPlace(node, job);
+    } catch (error) {
+        logger.error('Queue', `❌ Cannot place ${job.jobId}: ${(error as Error).message}`);
+        return false;
+    }
+}
+
+/**
+ * Take the next job this node can run (capabilities, constraints, taints): lowest
+ * start tag first, then higher priority, then oldest. Owners at their concurrency cap wait.
+ */
+export function dequeue(node: RegisteredNode): QueuedJob | null {
+    const running = runningCountByOwner();
+    const weights = config.scheduling.priorityWeights;
+    let index = -1;
+
+    pendingQueue.forEach((job, i) => {
+        if (!isPlaceable(node, job)) return;
+        if (isAtConcurrencyCap(job.owner, running)) return;
+
+        if (index === -1) {
+            index = i;
+            return;
+        }
+        const best = pendingQueue[index];
+        const tag = startTag(job.owner);
+        const bestTag = startTag(best.owner);
+        if (tag < bestTag || (tag === bestTag && weights[job.priority] > weights[best.priority])) {
+            index = i;
+        }
+    });
 
     if (index === -1) return null;
 
     const [job] = pendingQueue.splice(index, 1);
+    advanceOwner(job);
     return job;
 }
 
@@ -93,12 +190,21 @@ export function markComplete(runId: string, success: boolean, result?: unknown,
     record.error = error;
 
     completedJobs.set(runId, record);
+    // Maps iterate in insertion order, so this drops the oldest
+    for (const oldest of completedJobs.keys()) {
+        if (completedJobs.size <= MAX_COMPLETED_JOBS) break;
+        completedJobs.delete(oldest);
+    }
     logger.info('Queue', `${success ? '✅' : '❌'} Job ${record.job.jobId} ${record.status}`);
 }
 
-export function markTimeout(runId: string): void {
+/**
+ * Record a failed attempt (timeout or node loss). The job is requeued, or moved to
+ * the dead letter queue once it runs out of retries. Returns the job's new status.
+ */
+export function markTimeout(runId: string, reason: string = 'Timed out'): JobStatus | undefined {
     const record = runningJobs.get(runId);
-    if (!record) return;
+    if (!record) return undefined;
 
     runningJobs.delete(runId);
 
@@ -108,46 +214,57 @@ export function markTimeout(runId: string): void {
     if (job.retryCount >= job.maxRetries) {
         // Move to dead letter queue
         record.status = 'DEAD';
-        record.error = `Exceeded max retries (${job.maxRetries})`;
+        record.completedAt = Date.now();
+        record.error = `Exceeded max retries (${job.maxRetries}): ${reason}`;
         deadLetterQueue.push(record);
+        if (deadLetterQueue.length > MAX_DEAD_LETTERS) {
+            deadLetterQueue.splice(0, deadLetterQueue.length - MAX_DEAD_LETTERS);
+        }
         logger.warn('Queue', `💀 Job ${job.jobId} moved to dead letter queue`);
-    } else {
-        // Retry
-        pendingQueue.push(job);
-        logger.warn('Queue', `🔄 Job ${job.jobId} requeued (attempt ${job.retryCount}/${job.maxRetries})`);
+        return 'DEAD';
     }
-}
 
-// =============================================================================
-// Timeout Checker
-// =============================================================================
-
-export function checkTimeouts(): string[] {
-    const now = Date.now();
-    const timedOut: string[] = [];
+    // Retry
+    pendingQueue.push(job);
+    logger.warn('Queue', `🔄 Job ${job.jobId} requeued (attempt ${job.retryCount}/${job.maxRetries}): ${reason}`);
+    return 'PENDING';
+}
 
-    for (const [runId, record] of runningJobs) {
-        const elapsed = now - (record.startedAt ?? now);
-        if (elapsed > record.job.timeout) {
-            timedOut.push(runId);
-        }
-    }
+/**
+ * Remove a job that hasn't been picked up yet. Returns null if it isn't queued.
+ */
+export function removePending(jobId: string): QueuedJob | null {
+    const index = pendingQueue.findIndex(job => job.jobId === jobId);
+    if (index === -1) return null;
 
-    timedOut.forEach(runId => markTimeout(runId));
-    return timedOut;
+    const [job] = pendingQueue.splice(index, 1);
+    logger.info('Queue', `🗑️ Removed ${jobId} from queue`);
+    return job;
 }
 
-// Start timeout checker
-setInterval(checkTimeouts, 5000);
-
 // =============================================================================
 // Stats
 // =============================================================================
 
 export function getQueueStats() {
+    const running = runningCountByOwner();
+    const owners: Record<string, { pending: number; running: number; atCap: boolean }> = {};
+    for (const job of pendingQueue) {
+        owners[job.owner] ??= { pending: 0, running: running.get(job.owner) ?? 0, atCap: isAtConcurrencyCap(job.owner, running) };
+        owners[job.owner].pending++;
+    }
+    for (const [owner, count] of running) {
+        owners[owner] ??= { pending: 0, running: count, atCap: isAtConcurrencyCap(owner, running) };
+    }
+
     return {
         pending: pendingQueue.length,
+        pendingByPriority: Object.fromEntries(
+            JOB_PRIORITIES.map(p => [p, pendingQueue.filter(j => j.priority === p).length])
+        ),
         running: runningJobs.size,
+        maxConcurrentPerUser: config.scheduling.maxConcurrentPerUser,
+        owners,
         completed: completedJobs.size,
         deadLetter: deadLetterQueue.length,
         recentDeadLetters: deadLetterQueue.slice(-5).map(r => ({
@@ -164,3 +281,7 @@ export function getPendingJobs(): QueuedJob[] {
 export function getRunningJobs(): JobRecord[] {
     return Array.from(runningJobs.values());
 }
+
+export function getDeadLetterJobs(): JobRecord[] {
+    return [...deadLetterQueue];
+}
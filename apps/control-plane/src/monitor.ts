@@ -4,7 +4,8 @@
 // Tracks agent node status, connection history, and job metrics.
 // =============================================================================
 
-import { nodeRegistry } from './registry.js';
+import { config } from '@terminus/config';
+import { nodeRegistry, scoreNode } from './registry.js';
 import { logger } from './logger.js';
 
 // =============================================================================
@@ -25,7 +26,10 @@ export interface AgentNodeStatus {
         activeJobs: number;
         totalJobsCompleted: number;
         totalJobsFailed: number;
+        latencyMs?: number;
+        reputation?: number;
     };
+    placementScore: number;
 }
 
 export interface LogEntry {
@@ -41,9 +45,6 @@ export interface LogEntry {
 // In-Memory Storage
 // =============================================================================
 
-// Job stats per node
-const nodeJobStats = new Map<string, { completed: number; failed: number }>();
-
 // Centralized log buffer (last N entries)
 const MAX_LOGS = 500;
 const logBuffer: LogEntry[] = [];
@@ -52,8 +53,9 @@ const logBuffer: LogEntry[] = [];
 const connectionHistory: Array<{
     nodeId: string;
     agentTypes: string[];
-    event: 'CONNECTED' | 'DISCONNECTED';
+    event: 'CONNECTED' | 'DISCONNECTED' | 'TIMED_OUT';
     timestamp: number;
+    detail?: string;
 }> = [];
 
 // =============================================================================
@@ -119,11 +121,6 @@ export function recordNodeConnection(nodeId: string, agentTypes: string[]): void
         timestamp: Date.now(),
     });
 
-    // Initialize job stats
-    if (!nodeJobStats.has(nodeId)) {
-        nodeJobStats.set(nodeId, { completed: 0, failed: 0 });
-    }
-
     addLog('INFO', 'Monitor', `Node ${nodeId} connected with agents: [${agentTypes.join(', ')}]`, nodeId);
 }
 
@@ -139,14 +136,22 @@ export function recordNodeDisconnection(nodeId: string): void {
     addLog('WARN', 'Monitor', `Node ${nodeId} disconnected`, nodeId);
 }
 
+export function recordNodeTimeout(nodeId: string, heartbeatAgeMs: number): void {
+    const node = nodeRegistry.get(nodeId);
+    connectionHistory.push({
+        nodeId,
+        agentTypes: node?.agentTypes || [],
+        event: 'TIMED_OUT',
+        timestamp: Date.now(),
+        detail: `No heartbeat for ${heartbeatAgeMs}ms`,
+    });
+
+    addLog('WARN', 'Monitor', `Node ${nodeId} timed out (no heartbeat for ${heartbeatAgeMs}ms)`, nodeId);
+}
+
 export function recordJobComplete(nodeId: string, success: boolean): void {
-    const stats = nodeJobStats.get(nodeId) || { completed: 0, failed: 0 };
-    if (success) {
-        stats.completed++;
-    } else {
-        stats.failed++;
-    }
-    nodeJobStats.set(nodeId, stats);
+    // The registry keeps job stats since placement scores on them
+    nodeRegistry.recordJobOutcome(nodeId, success);
 }
 
 // =============================================================================
@@ -155,13 +160,14 @@ export function recordJobComplete(nodeId: string, success: boolean): void {
 
 export function getAgentNodesStatus(): AgentNodeStatus[] {
     const now = Date.now();
-    const STALE_THRESHOLD_MS = 30000; // 30 seconds without heartbeat = stale
+    // Two missed heartbeats = stale; the reaper evicts the node at heartbeatTimeout
+    const STALE_THRESHOLD_MS = config.timing.heartbeatInterval * 2;
 
     const nodes = nodeRegistry.getOnlineNodes();
 
     return nodes.map(node => {
         const heartbeatAge = now - node.lastHeartbeat;
-        const jobStats = nodeJobStats.get(node.nodeId) || { completed: 0, failed: 0 };
+        const stats = nodeRegistry.getNodeStats(node.nodeId);
 
         let status: 'ONLINE' | 'OFFLINE' | 'STALE' = node.status === 'ONLINE' ? 'ONLINE' : 'OFFLINE';
         if (status === 'ONLINE' && heartbeatAge > STALE_THRESHOLD_MS) {
@@ -180,9 +186,12 @@ export function getAgentNodesStatus(): AgentNodeStatus[] {
                 cpuUsage: node.metrics.cpuUsage,
                 memoryUsage: node.metrics.memoryUsage,
                 activeJobs: node.metrics.activeJobs,
-                totalJobsCompleted: jobStats.completed,
-                totalJobsFailed: jobStats.failed,
+                totalJobsCompleted: stats?.completed ?? 0,
+                totalJobsFailed: stats?.failed ?? 0,
+                latencyMs: stats?.latencyMs,
+                reputation: stats?.reputation,
             },
+            placementScore: scoreNode(node, stats, now),
         };
     });
 }
@@ -214,6 +223,7 @@ export function getMonitoringSummary() {
             offline,
         },
         agentTypes: Array.from(allAgentTypes),
+        placementStrategy: nodeRegistry.getPlacementStrategy(),
         jobs: {
             total: totalJobs,
             successRate: Math.round(successRate * 100) / 100,
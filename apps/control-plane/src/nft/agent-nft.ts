@@ -5,6 +5,7 @@
 // =============================================================================
 
 import { ethers } from 'ethers';
+import { createWalletAuthMessage } from '@terminus/protocol';
 import { logger } from '../logger.js';
 
 // =============================================================================
@@ -162,14 +163,15 @@ export async function verifyAgentOwnership(
 
 /**
  * Verify that a signature was created by the claimed wallet address.
- * Message format: "terminus-auth:{nodeId}"
+ * Message format: "terminus-auth:{nodeId}:{nonce}"
  */
 export function verifyWalletSignature(
     nodeId: string,
     claimedWallet: string,
-    signature: string
+    signature: string,
+    nonce: string
 ): { valid: boolean; recoveredAddress?: string; error?: string } {
-    const message = `terminus-auth:${nodeId}`;
+    const message = createWalletAuthMessage(nodeId, nonce);
 
     try {
         const recoveredAddress = ethers.verifyMessage(message, signature);
@@ -194,8 +196,8 @@ export function verifyWalletSignature(
 /**
  * Generate the message that should be signed by the wallet
  */
-export function getAuthMessage(nodeId: string): string {
-    return `terminus-auth:${nodeId}`;
+export function getAuthMessage(nodeId: string, nonce: string): string {
+    return createWalletAuthMessage(nodeId, nonce);
 }
 
 /**
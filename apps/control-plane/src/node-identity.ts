@@ -0,0 +1,165 @@
+// =============================================================================
+// TERMINUS CONTROL PLANE - Node Identity
+// =============================================================================
+// Per-node identity keys for challenge-response AUTH. Each connection gets a
+// single-use nonce that the node signs with its wallet key. Node IDs are bound
+// to the first key that authenticates them (trust on first use) and can be
+// revoked. Bindings are persisted to JSON so they survive restarts.
+// =============================================================================
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { config } from '@terminus/config';
+import { nodeRegistry } from './registry.js';
+import { logger } from './logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface NodeIdentity {
+    nodeId: string;
+    address: string;             // Lower-cased identity/wallet address bound to this node
+    firstSeen: number;
+    lastSeen: number;
+    revoked: boolean;
+    revokedAt?: number;
+    revokeReason?: string;
+}
+
+export type IdentityVerification =
+    | { valid: true; identity: NodeIdentity }
+    | { valid: false; error: string };
+
+// =============================================================================
+// File Persistence
+// =============================================================================
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const DATA_DIR = config.storage.dataDir ?? join(__dirname, '..', 'data');
+const IDENTITIES_FILE = join(DATA_DIR, 'node-identities.json');
+
+const identities = new Map<string, NodeIdentity>();
+
+function loadIdentities(): void {
+    if (!existsSync(IDENTITIES_FILE)) return;
+
+    try {
+        const data = JSON.parse(readFileSync(IDENTITIES_FILE, 'utf-8')) as NodeIdentity[];
+        for (const identity of data) {
+            identities.set(identity.nodeId, identity);
+        }
+        logger.info('Persistence', `📂 Loaded ${data.length} node identities from disk`);
+    } catch (error) {
+        logger.error('Persistence', `❌ Failed to load node identities: ${(error as Error).message}`);
+    }
+}
+
+function saveIdentities(): void {
+    try {
+        if (!existsSync(DATA_DIR)) {
+            mkdirSync(DATA_DIR, { recursive: true });
+        }
+        writeFileSync(IDENTITIES_FILE, JSON.stringify(Array.from(identities.values()), null, 2), 'utf-8');
+    } catch (error) {
+        logger.error('Persistence', `❌ Failed to save node identities: ${(error as Error).message}`);
+    }
+}
+
+// Load on module init
+loadIdentities();
+
+// =============================================================================
+// Identity Binding
+// =============================================================================
+
+/**
+ * Check that a verified signing address may authenticate as nodeId.
+ * On first contact the node ID is bound to the address.
+ */
+export function checkNodeIdentity(nodeId: string, address: string): IdentityVerification {
+    address = address.toLowerCase();
+
+    if (isAddressRevoked(address)) {
+        return { valid: false, error: 'Node identity has been revoked' };
+    }
+
+    const existing = identities.get(nodeId);
+    if (existing) {
+        if (existing.revoked) {
+            return { valid: false, error: 'Node identity has been revoked' };
+        }
+        if (existing.address !== address) {
+            return { valid: false, error: `Node ID ${nodeId} is bound to a different key` };
+        }
+        existing.lastSeen = Date.now();
+        saveIdentities();
+        return { valid: true, identity: existing };
+    }
+
+    const identity: NodeIdentity = {
+        nodeId,
+        address,
+        firstSeen: Date.now(),
+        lastSeen: Date.now(),
+        revoked: false,
+    };
+    identities.set(nodeId, identity);
+    saveIdentities();
+    logger.info('Identity', `🪪 Bound ${nodeId} to ${address.slice(0, 10)}...`);
+
+    return { valid: true, identity };
+}
+
+/**
+ * Check that a node authenticating with the legacy shared secret may use nodeId.
+ * The secret proves no key, so node IDs bound to one (or revoked) are refused.
+ * Returns an error message.
+ */
+export function checkSharedSecretNode(nodeId: string): string | null {
+    const existing = identities.get(nodeId);
+    if (!existing) return null;
+    return existing.revoked
+        ? 'Node identity has been revoked'
+        : `Node ID ${nodeId} is bound to a wallet key; sign the auth challenge`;
+}
+
+// =============================================================================
+// Revocation
+// =============================================================================
+
+function isAddressRevoked(address: string): boolean {
+    for (const identity of identities.values()) {
+        if (identity.revoked && identity.address === address) return true;
+    }
+    return false;
+}
+
+/**
+ * Revoke a node's identity. Its key can no longer authenticate under any node ID,
+ * and the node is disconnected if it is currently online.
+ */
+export function revokeNodeIdentity(nodeId: string, reason?: string): NodeIdentity | undefined {
+    const identity = identities.get(nodeId);
+    if (!identity) return undefined;
+
+    identity.revoked = true;
+    identity.revokedAt = Date.now();
+    identity.revokeReason = reason;
+    saveIdentities();
+    logger.warn('Identity', `⛔ Revoked ${nodeId} (${identity.address.slice(0, 10)}...)${reason ? `: ${reason}` : ''}`);
+
+    nodeRegistry.getSocket(nodeId)?.close();
+
+    return identity;
+}
+
+export function getNodeIdentity(nodeId: string): NodeIdentity | undefined {
+    return identities.get(nodeId);
+}
+
+export function getAllNodeIdentities(): NodeIdentity[] {
+    return Array.from(identities.values());
+}
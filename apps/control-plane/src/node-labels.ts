@@ -0,0 +1,127 @@
+// =============================================================================
+// TERMINUS CONTROL PLANE - Node Labels & Taints
+// =============================================================================
+// Operator-assigned placement metadata per node ID. Labels (region, tier, owner,
+// trusted, ...) are matched by job constraints; taints keep jobs that don't
+// tolerate them off dedicated machines. Persisted to JSON and applied to the
+// registry when a node connects or its labels change.
+// =============================================================================
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { config } from '@terminus/config';
+import { nodeRegistry } from './registry.js';
+import { logger } from './logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface NodeLabels {
+    nodeId: string;
+    labels: Record<string, string>;
+    taints: string[];
+    updatedAt: number;
+}
+
+// =============================================================================
+// File Persistence
+// =============================================================================
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const DATA_DIR = config.storage.dataDir ?? join(__dirname, '..', 'data');
+const LABELS_FILE = join(DATA_DIR, 'node-labels.json');
+
+const nodeLabels = new Map<string, NodeLabels>();
+
+function loadLabels(): void {
+    if (!existsSync(LABELS_FILE)) return;
+
+    try {
+        const data = JSON.parse(readFileSync(LABELS_FILE, 'utf-8')) as NodeLabels[];
+        for (const entry of data) {
+            nodeLabels.set(entry.nodeId, entry);
+        }
+        logger.info('Persistence', `📂 Loaded labels for ${data.length} nodes from disk`);
+    } catch (error) {
+        logger.error('Persistence', `❌ Failed to load node labels: ${(error as Error).message}`);
+    }
+}
+
+function saveLabels(): void {
+    try {
+        if (!existsSync(DATA_DIR)) {
+            mkdirSync(DATA_DIR, { recursive: true });
+        }
+        writeFileSync(LABELS_FILE, JSON.stringify(Array.from(nodeLabels.values()), null, 2), 'utf-8');
+    } catch (error) {
+        logger.error('Persistence', `❌ Failed to save node labels: ${(error as Error).message}`);
+    }
+}
+
+// Load on module init
+loadLabels();
+
+// =============================================================================
+// Labels
+// =============================================================================
+
+const LABEL_KEY_PATTERN = /^[\w./-]+$/;
+const TAINT_PATTERN = /^[\w./-]+(=\S*)?$/;
+
+/**
+ * Validate a labels/taints update. Returns an error message, or null if valid.
+ */
+export function validateNodeLabels(update: { labels?: unknown; taints?: unknown }): string | null {
+    if (update.labels !== undefined) {
+        if (typeof update.labels !== 'object' || update.labels === null || Array.isArray(update.labels)) {
+            return '"labels" must be an object of string values';
+        }
+        for (const [key, value] of Object.entries(update.labels)) {
+            if (!LABEL_KEY_PATTERN.test(key)) return `Invalid label key "${key}"`;
+            if (typeof value !== 'string') return `Label "${key}" must be a string`;
+        }
+    }
+    if (update.taints !== undefined) {
+        if (!Array.isArray(update.taints)) return '"taints" must be an array of strings';
+        for (const taint of update.taints) {
+            if (typeof taint !== 'string' || !TAINT_PATTERN.test(taint)) return `Invalid taint "${taint}"`;
+        }
+    }
+    return null;
+}
+
+export function getNodeLabels(nodeId: string): Pick<NodeLabels, 'labels' | 'taints'> {
+    const entry = nodeLabels.get(nodeId);
+    return { labels: { ...entry?.labels }, taints: [...(entry?.taints ?? [])] };
+}
+
+export function getAllNodeLabels(): NodeLabels[] {
+    return Array.from(nodeLabels.values());
+}
+
+/**
+ * Replace a node's labels and/or taints (omitted fields are kept) and apply them
+ * to the node if it is connected.
+ */
+export function setNodeLabels(
+    nodeId: string,
+    update: { labels?: Record<string, string>; taints?: string[] }
+): NodeLabels {
+    const current = getNodeLabels(nodeId);
+    const entry: NodeLabels = {
+        nodeId,
+        labels: update.labels ?? current.labels,
+        taints: update.taints ?? current.taints,
+        updatedAt: Date.now(),
+    };
+
+    nodeLabels.set(nodeId, entry);
+    saveLabels();
+    nodeRegistry.setLabels(nodeId, { ...entry.labels }, [...entry.taints]);
+
+    logger.info('Labels', `🏷️ ${nodeId}: labels {${Object.entries(entry.labels).map(([k, v]) => `${k}=${v}`).join(', ')}} taints [${entry.taints.join(', ')}]`);
+    return entry;
+}
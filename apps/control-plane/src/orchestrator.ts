@@ -12,7 +12,7 @@ import { join } from 'path';
 import { logger } from './logger.js';
 import { AGENTS, formatAgentsForLLM, getAgentById, type AgentDefinition } from './agents-registry.js';
 import { executeAgentTool } from './agent-tools.js';
-import { dispatchAgentJob } from './index.js';
+import { dispatchAgentJob } from './agent-jobs.js';
 import { nodeRegistry } from './registry.js';
 
 // =============================================================================
@@ -267,7 +267,7 @@ export async function executeMultiAgent(userMessage: string): Promise<MultiAgent
         // Check if we should use remote agents
         if (!isLocalAgentsMode()) {
             // Try to dispatch to remote node
-            const remoteNode = nodeRegistry.getIdleNodeForAgent(agentId);
+            const remoteNode = nodeRegistry.getAvailableNodeForAgent(agentId);
             if (remoteNode) {
                 logger.info('Orchestrator', `📡 Dispatching ${agentId} to remote node ${remoteNode.nodeId}`);
                 try {
@@ -275,7 +275,7 @@ export async function executeMultiAgent(userMessage: string): Promise<MultiAgent
                     return {
                         agentId,
                         agentName: agent.name,
-                        toolCalls: result.toolsUsed || [],
+                        toolCalls: (result.toolsUsed || []).map(t => ({ tool: t.name, params: t.params, result: t.result })),
                         summary: result.response,
                     } as AgentExecutionResult;
                 } catch (err) {
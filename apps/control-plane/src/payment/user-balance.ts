@@ -12,6 +12,7 @@ import { getPaymentConfig } from './config.js';
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
+import { config } from '@terminus/config';
 
 // =============================================================================
 // Types
@@ -39,7 +40,7 @@ export interface DepositRecord {
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
-const DATA_DIR = join(__dirname, '..', '..', 'data');
+const DATA_DIR = config.storage.dataDir ?? join(__dirname, '..', '..', 'data');
 const BALANCES_FILE = join(DATA_DIR, 'user-balances.json');
 const DEPOSITS_FILE = join(DATA_DIR, 'processed-deposits.json');
 
@@ -1,5 +1,174 @@
 import type { WebSocket } from 'ws';
-import type { RegisteredNode } from '@terminus/protocol';
+import type { JobRuntime, ProtocolFeature, RegisteredNode, ToolManifest } from '@terminus/protocol';
+import { config } from '@terminus/config';
+import { logger } from './logger.js';
+
+/**
+ * Per-node history used for placement. Kept across reconnects.
+ */
+export interface NodeStats {
+    completed: number;
+    failed: number;
+    latencyMs?: number;              // Moving average of ping round-trip time, measured by the control plane
+    reputation?: number;             // 0-1, from the on-chain reputation of the node's agents
+    lastAssignedAt: number;
+}
+
+/**
+ * Orders candidate nodes for a job, best first.
+ */
+export interface PlacementStrategy {
+    name: string;
+    rank(nodes: RegisteredNode[], getStats: (nodeId: string) => NodeStats | undefined): RegisteredNode[];
+}
+
+/**
+ * What a job needs from the node it runs on.
+ */
+export interface PlacementRequirements {
+    requiredCapabilities?: string[];
+    constraints?: string[];          // Label rules: 'region=eu', 'tier!=free', 'trusted', '!untrusted'
+    tolerations?: string[];          // Taints the job may be placed on, e.g. 'dedicated=acme'
+    tools?: string[];                // Node tools the job's script calls
+    runtime?: JobRuntime;            // Script language; every node runs javascript
+}
+
+export interface LabelConstraint {
+    key: string;
+    op: '=' | '!=' | 'exists' | 'absent';
+    value?: string;
+}
+
+const LATENCY_SMOOTHING = 0.2;        // Weight of the newest sample in the latency average
+const MAX_SCORED_LATENCY_MS = 1000;   // Latency at or above this scores 0
+
+/**
+ * Load between 0 (idle) and 1 (saturated), from the last heartbeat and slot reservations.
+ */
+export function nodeLoad(node: RegisteredNode): number {
+    const { cpuUsage, memoryUsage, activeJobs } = node.metrics;
+    const jobs = Math.max(activeJobs, node.reservedJobs);
+    return (cpuUsage / 100 + memoryUsage / 100 + Math.min(jobs / node.maxConcurrentJobs, 1)) / 3;
+}
+
+/**
+ * Job slots a node can take right now. Reservations are counted at dispatch, so
+ * this is accurate between heartbeats. Nodes without 'concurrent-jobs' may still be
+ * running work we abandoned (they can't be cancelled), so their heartbeat counts too.
+ */
+export function freeSlots(node: RegisteredNode): number {
+    const busy = node.features.includes('concurrent-jobs')
+        ? node.reservedJobs
+        : Math.max(node.reservedJobs, node.metrics.activeJobs);
+    return Math.max(node.maxConcurrentJobs - busy, 0);
+}
+
+/**
+ * Placement score between 0 and 1 (higher is better), weighted by config.placement.weights.
+ * Nodes without history score neutral on reliability, reputation and latency.
+ */
+export function scoreNode(node: RegisteredNode, stats: NodeStats | undefined, now: number = Date.now()): number {
+    const weights = config.placement.weights;
+    const completed = stats?.completed ?? 0;
+    const failed = stats?.failed ?? 0;
+
+    const load = 1 - nodeLoad(node);
+    const reliability = (completed + 1) / (completed + failed + 2);
+    const freshness = 1 - Math.min((now - node.lastHeartbeat) / config.timing.heartbeatTimeout, 1);
+    const reputation = stats?.reputation ?? 0.5;
+    const latency = stats?.latencyMs === undefined ? 0.5 : 1 - Math.min(stats.latencyMs / MAX_SCORED_LATENCY_MS, 1);
+
+    return weights.load * load
+        + weights.reliability * reliability
+        + weights.freshness * freshness
+        + weights.reputation * reputation
+        + weights.latency * latency;
+}
+
+/**
+ * Parse a label constraint ('key=value', 'key!=value', 'key' or '!key'). Returns null if malformed.
+ */
+export function parseConstraint(constraint: string): LabelConstraint | null {
+    const comparison = /^([\w./-]+)(!?=)(.*)$/.exec(constraint);
+    if (comparison) {
+        return { key: comparison[1], op: comparison[2] as '=' | '!=', value: comparison[3] };
+    }
+
+    const presence = /^(!?)([\w./-]+)$/.exec(constraint);
+    if (presence) {
+        return { key: presence[2], op: presence[1] ? 'absent' : 'exists' };
+    }
+    return null;
+}
+
+function matchesConstraint(labels: Record<string, string>, constraint: string): boolean {
+    const parsed = parseConstraint(constraint);
+    if (!parsed) return false;
+
+    const { key, op, value } = parsed;
+    switch (op) {
+        case '=': return labels[key] === value;
+        case '!=': return labels[key] !== value;
+        case 'exists': return key in labels;
+        case 'absent': return !(key in labels);
+    }
+}
+
+/**
+ * Check a node against a job's capabilities, runtime, tools, label constraints and taint tolerations.
+ * Jobs that call tools need the node to host them and to speak 'tool-bridge'; jobs in
+ * another runtime than javascript need 'runtimes' and the matching runtime:* capability.
+ */
+export function canPlace(node: RegisteredNode, requirements: PlacementRequirements): boolean {
+    const { requiredCapabilities = [], constraints = [], tolerations = [], tools = [], runtime = 'javascript' } = requirements;
+    return requiredCapabilities.every(cap => node.capabilities.includes(cap))
+        && (runtime === 'javascript' || (node.features.includes('runtimes') && node.capabilities.includes(`runtime:${runtime}`)))
+        && (tools.length === 0 || node.features.includes('tool-bridge'))
+        && tools.every(tool => node.capabilities.includes(`tool:${tool}`))
+        && constraints.every(c => matchesConstraint(node.labels, c))
+        && node.taints.every(taint => tolerations.includes(taint));
+}
+
+// =============================================================================
+// Placement Strategies
+// =============================================================================
+
+const scoredStrategy: PlacementStrategy = {
+    name: 'scored',
+    rank(nodes, getStats) {
+        const now = Date.now();
+        const scores = new Map(nodes.map(n => [n.nodeId, scoreNode(n, getStats(n.nodeId), now)]));
+        return [...nodes].sort((a, b) => scores.get(b.nodeId)! - scores.get(a.nodeId)!);
+    },
+};
+
+const leastLoadedStrategy: PlacementStrategy = {
+    name: 'least-loaded',
+    rank(nodes) {
+        return [...nodes].sort((a, b) => nodeLoad(a) - nodeLoad(b));
+    },
+};
+
+// Least recently assigned first, which cycles through the fleet
+const roundRobinStrategy: PlacementStrategy = {
+    name: 'round-robin',
+    rank(nodes, getStats) {
+        const lastAssigned = (n: RegisteredNode) => getStats(n.nodeId)?.lastAssignedAt ?? 0;
+        return [...nodes].sort((a, b) => lastAssigned(a) - lastAssigned(b));
+    },
+};
+
+const randomStrategy: PlacementStrategy = {
+    name: 'random',
+    rank(nodes) {
+        const shuffled = [...nodes];
+        for (let i = shuffled.length - 1; i > 0; i--) {
+            const j = Math.floor(Math.random() * (i + 1));
+            [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+        }
+        return shuffled;
+    },
+};
 
 /**
  * Node Registry - Tracks all connected nodes.
@@ -7,6 +176,17 @@ import type { RegisteredNode } from '@terminus/protocol';
 class NodeRegistry {
     private nodes = new Map<string, RegisteredNode>();
     private sockets = new Map<string, WebSocket>();
+    private stats = new Map<string, NodeStats>();
+    private strategies = new Map<string, PlacementStrategy>(
+        [scoredStrategy, leastLoadedStrategy, roundRobinStrategy, randomStrategy].map(s => [s.name, s])
+    );
+    private strategy: PlacementStrategy = scoredStrategy;
+
+    constructor() {
+        if (!this.setPlacementStrategy(config.placement.strategy)) {
+            logger.warn('Registry', `⚠️ Unknown placement strategy "${config.placement.strategy}", using ${this.strategy.name}`);
+        }
+    }
 
     /**
      * Register a new node.
@@ -14,7 +194,7 @@ class NodeRegistry {
     register(
         nodeId: string,
         socket: WebSocket,
-        data: Omit<RegisteredNode, 'nodeId' | 'status' | 'connectedAt' | 'lastHeartbeat' | 'metrics'>
+        data: Omit<RegisteredNode, 'nodeId' | 'status' | 'connectedAt' | 'lastHeartbeat' | 'metrics' | 'reservedJobs'>
     ): void {
         const node: RegisteredNode = {
             nodeId,
@@ -22,6 +202,15 @@ class NodeRegistry {
             agentTypes: data.agentTypes,
             wallet: data.wallet,
             version: data.version,
+            protocolVersion: data.protocolVersion,
+            features: data.features,
+            specs: data.specs,
+            tools: data.tools,
+            maxConcurrentJobs: data.maxConcurrentJobs,
+            // A resumed session keeps the jobs it had in flight
+            reservedJobs: this.nodes.get(nodeId)?.reservedJobs ?? 0,
+            labels: data.labels,
+            taints: data.taints,
             status: 'ONLINE',
             connectedAt: Date.now(),
             lastHeartbeat: Date.now(),
@@ -48,6 +237,56 @@ class NodeRegistry {
         return true;
     }
 
+    /**
+     * Fold a round-trip time measured by the control plane into the node's latency average.
+     */
+    recordLatency(nodeId: string, rttMs: number): void {
+        if (!this.nodes.has(nodeId)) return;
+
+        const stats = this.statsFor(nodeId);
+        const sample = Math.max(rttMs, 0);
+        stats.latencyMs = stats.latencyMs === undefined
+            ? sample
+            : stats.latencyMs + LATENCY_SMOOTHING * (sample - stats.latencyMs);
+    }
+
+    /**
+     * Mark a node OFFLINE so it stops receiving new work.
+     */
+    markOffline(nodeId: string): boolean {
+        const node = this.nodes.get(nodeId);
+        if (!node) return false;
+
+        node.status = 'OFFLINE';
+        return true;
+    }
+
+    /**
+     * Replace a node's operator-assigned labels and taints.
+     */
+    setLabels(nodeId: string, labels: Record<string, string>, taints: string[]): boolean {
+        const node = this.nodes.get(nodeId);
+        if (!node) return false;
+
+        node.labels = labels;
+        node.taints = taints;
+        return true;
+    }
+
+    /**
+     * Drop a node's socket but keep its registration (session held for resumption).
+     */
+    detachSocket(nodeId: string): void {
+        this.sockets.delete(nodeId);
+    }
+
+    /**
+     * Get online nodes whose last heartbeat is older than timeoutMs.
+     */
+    getStaleNodes(timeoutMs: number, now: number = Date.now()): RegisteredNode[] {
+        return this.getOnlineNodes().filter(n => now - n.lastHeartbeat > timeoutMs);
+    }
+
     /**
      * Remove a node from the registry.
      */
@@ -95,12 +334,71 @@ class NodeRegistry {
     }
 
     /**
-     * Get all idle nodes (ready to accept jobs).
+     * Get all idle nodes (no jobs at all), best placement first.
      */
     getIdleNodes(): RegisteredNode[] {
-        return Array.from(this.nodes.values()).filter(
-            n => n.status === 'ONLINE' && n.metrics.activeJobs === 0
-        );
+        return this.rankNodes(this.getOnlineNodes().filter(
+            n => n.reservedJobs === 0 && n.metrics.activeJobs === 0
+        ));
+    }
+
+    /**
+     * Get nodes with at least one free job slot that satisfy the requirements
+     * (if given), best placement first.
+     */
+    getAvailableNodes(requirements?: PlacementRequirements): RegisteredNode[] {
+        return this.rankNodes(this.getOnlineNodes().filter(
+            n => freeSlots(n) > 0 && (!requirements || canPlace(n, requirements))
+        ));
+    }
+
+    /**
+     * Take a job slot on a node when a job is dispatched to it.
+     */
+    reserveSlot(nodeId: string): void {
+        const node = this.nodes.get(nodeId);
+        if (node) node.reservedJobs++;
+    }
+
+    /**
+     * Give a job slot back once the job finished, failed or was cancelled.
+     */
+    releaseSlot(nodeId: string): void {
+        const node = this.nodes.get(nodeId);
+        if (node) node.reservedJobs = Math.max(node.reservedJobs - 1, 0);
+    }
+
+    /**
+     * Check whether a protocol feature was negotiated for a node's session.
+     */
+    hasFeature(nodeId: string, feature: ProtocolFeature): boolean {
+        return this.nodes.get(nodeId)?.features.includes(feature) ?? false;
+    }
+
+    /**
+     * Manifest of a tool as advertised by the first online node offering it.
+     */
+    getToolManifest(name: string): ToolManifest | undefined {
+        for (const node of this.getOnlineNodes()) {
+            const manifest = node.tools.find(t => t.name === name);
+            if (manifest) return manifest;
+        }
+        return undefined;
+    }
+
+    /**
+     * Every tool with a manifest on an online node, with the nodes offering it.
+     */
+    getTools(): { manifest: ToolManifest; nodeIds: string[] }[] {
+        const tools = new Map<string, { manifest: ToolManifest; nodeIds: string[] }>();
+        for (const node of this.getOnlineNodes()) {
+            for (const manifest of node.tools) {
+                const entry = tools.get(manifest.name) ?? { manifest, nodeIds: [] };
+                entry.nodeIds.push(node.nodeId);
+                tools.set(manifest.name, entry);
+            }
+        }
+        return Array.from(tools.values());
     }
 
     /**
@@ -113,11 +411,84 @@ class NodeRegistry {
     }
 
     /**
-     * Get an idle node for a specific agent type.
+     * Get the best-placed node with a free slot for a specific agent type.
+     * Tainted nodes are skipped unless the requirements tolerate their taints.
      */
-    getIdleNodeForAgent(agentType: string): RegisteredNode | undefined {
+    getAvailableNodeForAgent(agentType: string, requirements: PlacementRequirements = {}): RegisteredNode | undefined {
         const nodes = this.getNodesForAgent(agentType);
-        return nodes.find(n => n.metrics.activeJobs === 0);
+        return this.rankNodes(nodes.filter(n => freeSlots(n) > 0 && canPlace(n, requirements)))[0];
+    }
+
+    // -------------------------------------------------------------------------
+    // Placement
+    // -------------------------------------------------------------------------
+
+    /**
+     * Order nodes with the active placement strategy, best first.
+     */
+    rankNodes(nodes: RegisteredNode[]): RegisteredNode[] {
+        return this.strategy.rank(nodes, nodeId => this.stats.get(nodeId));
+    }
+
+    /**
+     * Add a placement strategy that can then be selected by name.
+     */
+    registerPlacementStrategy(strategy: PlacementStrategy): void {
+        this.strategies.set(strategy.name, strategy);
+    }
+
+    /**
+     * Switch the active placement strategy. Returns false for unknown names.
+     */
+    setPlacementStrategy(name: string): boolean {
+        const strategy = this.strategies.get(name);
+        if (!strategy) return false;
+
+        this.strategy = strategy;
+        return true;
+    }
+
+    getPlacementStrategy(): string {
+        return this.strategy.name;
+    }
+
+    /**
+     * Record that a job was just sent to a node.
+     */
+    recordAssignment(nodeId: string): void {
+        this.statsFor(nodeId).lastAssignedAt = Date.now();
+    }
+
+    /**
+     * Record how a job on a node ended (timeouts and node loss count as failures).
+     */
+    recordJobOutcome(nodeId: string, success: boolean): void {
+        const stats = this.statsFor(nodeId);
+        if (success) {
+            stats.completed++;
+        } else {
+            stats.failed++;
+        }
+    }
+
+    /**
+     * Set a node's reputation (0-1).
+     */
+    setReputation(nodeId: string, reputation: number): void {
+        this.statsFor(nodeId).reputation = Math.min(Math.max(reputation, 0), 1);
+    }
+
+    getNodeStats(nodeId: string): NodeStats | undefined {
+        return this.stats.get(nodeId);
+    }
+
+    private statsFor(nodeId: string): NodeStats {
+        let stats = this.stats.get(nodeId);
+        if (!stats) {
+            stats = { completed: 0, failed: 0, lastAssignedAt: 0 };
+            this.stats.set(nodeId, stats);
+        }
+        return stats;
     }
 
     /**
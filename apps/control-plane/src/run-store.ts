@@ -0,0 +1,129 @@
+// =============================================================================
+// TERMINUS CONTROL PLANE - Run Store
+// =============================================================================
+// Keeps the RunState of every submitted job so clients can submit
+// asynchronously and poll for status, output, logs and metrics later.
+// =============================================================================
+
+import type { RunState, RunStatus } from '@terminus/protocol';
+
+const MAX_RUNS = 10000;               // Oldest finished runs are evicted beyond this
+
+const runs = new Map<string, RunState>();
+
+const FINISHED: RunStatus[] = ['COMPLETED', 'FAILED', 'TIMEOUT', 'CANCELLED'];
+
+export function isFinished(status: RunStatus): boolean {
+    return FINISHED.includes(status);
+}
+
+function evict(): void {
+    if (runs.size <= MAX_RUNS) return;
+
+    // Maps iterate in insertion order, so this walks oldest first
+    for (const [jobId, run] of runs) {
+        if (isFinished(run.status)) {
+            runs.delete(jobId);
+            if (runs.size <= MAX_RUNS) return;
+        }
+    }
+}
+
+// =============================================================================
+// Lifecycle
+// =============================================================================
+
+export function createRun(jobId: string, runId: string, agentId: string, input: unknown, codeHash?: string, owner?: string): RunState {
+    const run: RunState = {
+        jobId,
+        runId,
+        agentId,
+        codeHash,
+        owner,
+        status: 'PENDING',
+        input,
+        attempts: 0,
+        createdAt: Date.now(),
+    };
+    runs.set(jobId, run);
+    evict();
+    return run;
+}
+
+export function markRunStarted(jobId: string, runId: string, nodeId: string): void {
+    const run = runs.get(jobId);
+    if (!run) return;
+
+    run.runId = runId;
+    run.nodeId = nodeId;
+    run.status = 'RUNNING';
+    run.attempts++;
+    run.startedAt = Date.now();
+}
+
+/**
+ * Put a job back to PENDING after a failed attempt that will be retried.
+ */
+export function markRunRequeued(jobId: string, error: string): void {
+    const run = runs.get(jobId);
+    if (!run) return;
+
+    run.status = 'PENDING';
+    run.error = error;
+}
+
+export function markRunFinished(
+    jobId: string,
+    status: RunStatus,
+    result: Pick<RunState, 'output' | 'error' | 'logs' | 'metrics' | 'artifacts'> = {}
+): void {
+    const run = runs.get(jobId);
+    if (!run) return;
+
+    run.status = status;
+    run.output = result.output;
+    run.error = result.error;
+    run.logs = result.logs;
+    run.metrics = result.metrics;
+    run.artifacts = result.artifacts;
+    run.completedAt = Date.now();
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+export function getRun(jobId: string): RunState | undefined {
+    return runs.get(jobId);
+}
+
+export interface RunFilter {
+    agentId?: string;
+    nodeId?: string;
+    status?: RunStatus;
+    owner?: string;
+    limit?: number;
+}
+
+/**
+ * List runs, newest first.
+ */
+export function listRuns(filter: RunFilter = {}): RunState[] {
+    let result = Array.from(runs.values());
+
+    if (filter.agentId) {
+        result = result.filter(r => r.agentId === filter.agentId);
+    }
+    if (filter.nodeId) {
+        result = result.filter(r => r.nodeId === filter.nodeId);
+    }
+    if (filter.status) {
+        result = result.filter(r => r.status === filter.status);
+    }
+    if (filter.owner) {
+        result = result.filter(r => r.owner === filter.owner);
+    }
+
+    const limit = filter.limit || 100;
+    return result.slice(-limit).reverse();
+}
@@ -0,0 +1,110 @@
+// =============================================================================
+// TERMINUS CONTROL PLANE - Node Sessions
+// =============================================================================
+// Resumable node sessions. A node that drops its connection keeps its session
+// (and its pending jobs) for a grace window; reconnecting with the session token
+// from AUTH_ACK resumes it. Results the node replays from its outbox after a
+// resume are de-duplicated by runId.
+// =============================================================================
+
+import { randomBytes } from 'crypto';
+import { logger } from './logger.js';
+
+interface NodeSession {
+    nodeId: string;
+    token: string;
+    graceTimer?: NodeJS.Timeout;     // Set while the node is disconnected
+    onExpire?: () => void;
+}
+
+const sessions = new Map<string, NodeSession>();
+
+// Recently settled runIds, so replayed results are acknowledged but not applied twice
+const MAX_SETTLED_RUNS = 5000;
+const settledRuns = new Set<string>();
+
+// =============================================================================
+// Session Lifecycle
+// =============================================================================
+
+/**
+ * Start (or rotate) a node's session and return its resume token.
+ */
+export function issueSession(nodeId: string): string {
+    const existing = sessions.get(nodeId);
+    if (existing?.graceTimer) clearTimeout(existing.graceTimer);
+
+    const token = randomBytes(32).toString('hex');
+    sessions.set(nodeId, { nodeId, token });
+    return token;
+}
+
+/**
+ * Resume a session with the token from a previous AUTH_ACK.
+ * Returns false if the token doesn't match (e.g. the grace window already expired).
+ */
+export function resumeSession(nodeId: string, token: string): boolean {
+    const session = sessions.get(nodeId);
+    if (!session || session.token !== token) return false;
+
+    if (session.graceTimer) {
+        clearTimeout(session.graceTimer);
+        session.graceTimer = undefined;
+        session.onExpire = undefined;
+    }
+    return true;
+}
+
+/**
+ * Keep a disconnected node's session alive for graceMs. onExpire runs if the
+ * node hasn't resumed by then.
+ */
+export function holdSession(nodeId: string, graceMs: number, onExpire: () => void): void {
+    const session = sessions.get(nodeId);
+    if (!session) {
+        onExpire();
+        return;
+    }
+
+    if (session.graceTimer) clearTimeout(session.graceTimer);
+    session.onExpire = onExpire;
+    session.graceTimer = setTimeout(() => {
+        logger.warn('Session', `⌛ Session for ${nodeId} expired after ${graceMs}ms`);
+        sessions.delete(nodeId);
+        onExpire();
+    }, graceMs);
+
+    logger.info('Session', `⏸️ Holding session for ${nodeId} (${graceMs / 1000}s grace)`);
+}
+
+/**
+ * End a node's session now. A held session's onExpire runs immediately.
+ */
+export function endSession(nodeId: string): void {
+    const session = sessions.get(nodeId);
+    if (!session) return;
+
+    sessions.delete(nodeId);
+    if (session.graceTimer) {
+        clearTimeout(session.graceTimer);
+        session.onExpire?.();
+    }
+}
+
+// =============================================================================
+// Result De-duplication
+// =============================================================================
+
+export function markRunSettled(runId: string): void {
+    settledRuns.add(runId);
+
+    // Sets iterate in insertion order, so the first entry is the oldest
+    if (settledRuns.size > MAX_SETTLED_RUNS) {
+        const oldest = settledRuns.values().next().value;
+        if (oldest !== undefined) settledRuns.delete(oldest);
+    }
+}
+
+export function isRunSettled(runId: string): boolean {
+    return settledRuns.has(runId);
+}
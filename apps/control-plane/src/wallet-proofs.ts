@@ -0,0 +1,100 @@
+// =============================================================================
+// TERMINUS CONTROL PLANE - Wallet Proofs
+// =============================================================================
+// Proof that a job submitter controls the wallet in X-Wallet-Address. Clients
+// get a single-use nonce from POST /api/wallet/challenge, sign the returned
+// message with the wallet (EIP-191 personal_sign) and send it with the job as
+// X-Wallet-Nonce and X-Wallet-Signature. Only proven wallets get paid priority
+// and count against MAX_JOBS_PER_USER; the header alone is just a claim.
+// =============================================================================
+
+import { randomBytes } from 'crypto';
+import { ethers } from 'ethers';
+import { logger } from './logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface WalletChallenge {
+    address: string;                 // Lower-cased wallet the nonce was issued for
+    nonce: string;
+    message: string;                 // What the wallet signs
+    expiresAt: number;
+}
+
+export type WalletProof =
+    | { valid: true; address: string }
+    | { valid: false; error: string };
+
+// =============================================================================
+// Challenges
+// =============================================================================
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_CHALLENGES = 10000;
+
+const challenges = new Map<string, WalletChallenge>();
+
+function pruneChallenges(now: number): void {
+    for (const [nonce, challenge] of challenges) {
+        if (challenge.expiresAt <= now) challenges.delete(nonce);
+    }
+    // Still full of live ones: drop the oldest (Maps iterate in insertion order)
+    for (const nonce of challenges.keys()) {
+        if (challenges.size < MAX_CHALLENGES) break;
+        challenges.delete(nonce);
+    }
+}
+
+export function createWalletProofMessage(address: string, nonce: string): string {
+    return `terminus-wallet:${address.toLowerCase()}:${nonce}`;
+}
+
+/**
+ * Issue a single-use nonce for a wallet to sign.
+ */
+export function issueWalletChallenge(address: string): WalletChallenge {
+    const now = Date.now();
+    pruneChallenges(now);
+
+    address = address.toLowerCase();
+    const nonce = randomBytes(16).toString('hex');
+    const challenge: WalletChallenge = {
+        address,
+        nonce,
+        message: createWalletProofMessage(address, nonce),
+        expiresAt: now + CHALLENGE_TTL_MS,
+    };
+    challenges.set(nonce, challenge);
+    return challenge;
+}
+
+/**
+ * Check a signed challenge. The nonce is consumed whatever the outcome, so a
+ * signature can never be replayed.
+ */
+export function verifyWalletProof(address: string, nonce: string, signature: string): WalletProof {
+    address = address.toLowerCase();
+    const challenge = challenges.get(nonce);
+    challenges.delete(nonce);
+
+    if (!challenge || challenge.expiresAt <= Date.now()) {
+        return { valid: false, error: 'Unknown or expired wallet challenge' };
+    }
+    if (challenge.address !== address) {
+        return { valid: false, error: 'Wallet challenge was issued for a different address' };
+    }
+
+    try {
+        const recovered = ethers.verifyMessage(challenge.message, signature).toLowerCase();
+        if (recovered !== address) {
+            logger.warn('WalletProof', `❌ Signature for ${address.slice(0, 10)}... recovered ${recovered.slice(0, 10)}...`);
+            return { valid: false, error: 'Wallet signature does not match the address' };
+        }
+    } catch (error) {
+        return { valid: false, error: `Invalid wallet signature: ${(error as Error).message}` };
+    }
+
+    return { valid: true, address };
+}
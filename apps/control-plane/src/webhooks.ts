@@ -0,0 +1,321 @@
+// =============================================================================
+// TERMINUS CONTROL PLANE - Webhook Delivery
+// =============================================================================
+// POSTs job results and chat responses to client callback URLs.
+// Bodies are signed with HMAC-SHA256 (WEBHOOK_SECRET), failed deliveries are
+// retried with exponential backoff, and every attempt is recorded.
+// Callback URLs are client-supplied, so deliveries never go to private,
+// loopback or link-local addresses unless the operator lists the host in
+// WEBHOOK_ALLOWED_HOSTS. Hosts are checked after DNS resolution and connections
+// go to the checked address (no DNS rebinding); redirects are not followed.
+// =============================================================================
+
+import { createHmac, randomUUID } from 'crypto';
+import type { LookupAddress, LookupOptions } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { Agent, fetch } from 'undici';
+import type { JobResultMessage } from '@terminus/protocol';
+import type { DispatchResult } from './dispatcher.js';
+import { getRun } from './run-store.js';
+import { logger } from './logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type WebhookEvent = 'job.completed' | 'chat.completed';
+
+export interface DeliveryAttempt {
+    attempt: number;
+    timestamp: number;
+    statusCode?: number;
+    error?: string;
+    durationMs: number;
+}
+
+export interface WebhookDelivery {
+    deliveryId: string;
+    event: WebhookEvent;
+    url: string;
+    subjectId: string;               // jobId or chatId the delivery is about
+    status: 'PENDING' | 'DELIVERED' | 'FAILED';
+    attempts: DeliveryAttempt[];
+    createdAt: number;
+    nextAttemptAt?: number;
+    deliveredAt?: number;
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET ?? '';
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 1000;         // 1s, 2s, 4s, 8s between attempts
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_DELIVERIES = 1000;          // Delivery log size
+
+// Hosts (names or IP literals) that may be private, e.g. an internal receiver
+const ALLOWED_HOSTS = new Set(
+    (process.env.WEBHOOK_ALLOWED_HOSTS ?? '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean)
+);
+
+// Loopback, private, link-local (incl. cloud metadata), CGNAT, multicast and
+// reserved ranges. IPv4-mapped IPv6 addresses are matched against the IPv4 rules.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+// NAT64 and 6to4 embed IPv4 addresses, which could be private ones
+for (const [network, prefix] of [
+    ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const deliveries = new Map<string, WebhookDelivery>();
+
+if (!WEBHOOK_SECRET) {
+    logger.warn('Webhooks', '⚠️ WEBHOOK_SECRET not set; webhook bodies will be unsigned');
+}
+
+// =============================================================================
+// Signing
+// =============================================================================
+
+/**
+ * Signature over `${timestamp}.${body}`, sent as X-Terminus-Signature: sha256=<hex>.
+ * Receivers recompute it with the shared secret and reject stale timestamps.
+ */
+export function signWebhook(timestamp: number, body: string, secret: string = WEBHOOK_SECRET): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+function isBlockedAddress(address: string): boolean {
+    const family = isIP(address);
+    return family !== 0 && BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/** URL hostname without the brackets around IPv6 literals. */
+function callbackHost(url: URL): string {
+    return url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+}
+
+/**
+ * Syntax check at submission: http(s) only, and no private IP literals or
+ * localhost unless allowed. Hostnames are resolved at delivery time.
+ */
+export function isValidCallbackUrl(url: unknown): url is string {
+    if (typeof url !== 'string') return false;
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return false;
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+
+    const host = callbackHost(parsed);
+    if (ALLOWED_HOSTS.has(host)) return true;
+    return host !== 'localhost' && !host.endsWith('.localhost') && !isBlockedAddress(host);
+}
+
+/**
+ * Resolve a callback host and check every address it maps to. Returns the
+ * addresses, or an error message if delivery must not go there.
+ */
+async function resolveCallbackHost(host: string): Promise<LookupAddress[] | string> {
+    const addresses = await lookup(host, { all: true, verbatim: true });
+    if (ALLOWED_HOSTS.has(host)) return addresses;
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    return blocked ? `Callback host ${host} resolves to a private address (${blocked.address})` : addresses;
+}
+
+/**
+ * Check a callback URL before delivery. Returns an error message if delivery
+ * must not go there.
+ */
+export async function checkCallbackTarget(url: string): Promise<string | null> {
+    const host = callbackHost(new URL(url));
+    if (ALLOWED_HOSTS.has(host)) return null;
+
+    const resolved = await resolveCallbackHost(host);
+    return typeof resolved === 'string' ? resolved : null;
+}
+
+/**
+ * DNS lookup for webhook connections. It resolves and checks in one step and the
+ * socket connects to exactly those addresses, so a host can't pass the check and
+ * then resolve to a private address for the connection itself.
+ */
+export function lookupCallbackHost(
+    hostname: string,
+    options: LookupOptions,
+    callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+    resolveCallbackHost(hostname.toLowerCase()).then(resolved => {
+        if (typeof resolved === 'string') {
+            callback(Object.assign(new Error(resolved), { code: 'EADDRNOTALLOWED' }), '');
+        } else if (options.all) {
+            callback(null, resolved);
+        } else {
+            callback(null, resolved[0].address, resolved[0].family);
+        }
+    }, (error: NodeJS.ErrnoException) => callback(error, ''));
+}
+
+const callbackAgent = new Agent({ connect: { lookup: lookupCallbackHost } });
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+/**
+ * Queue a webhook delivery. Returns immediately; delivery happens in the background.
+ */
+export function sendWebhook(url: string, event: WebhookEvent, subjectId: string, data: unknown): WebhookDelivery {
+    const delivery: WebhookDelivery = {
+        deliveryId: `whd-${randomUUID().slice(0, 8)}`,
+        event,
+        url,
+        subjectId,
+        status: 'PENDING',
+        attempts: [],
+        createdAt: Date.now(),
+    };
+
+    deliveries.set(delivery.deliveryId, delivery);
+    if (deliveries.size > MAX_DELIVERIES) {
+        const oldest = deliveries.keys().next().value;
+        if (oldest !== undefined) deliveries.delete(oldest);
+    }
+
+    const body = JSON.stringify({
+        deliveryId: delivery.deliveryId,
+        event,
+        timestamp: delivery.createdAt,
+        data,
+    });
+
+    void attemptDelivery(delivery, body);
+    return delivery;
+}
+
+async function attemptDelivery(delivery: WebhookDelivery, body: string): Promise<void> {
+    const attempt = delivery.attempts.length + 1;
+    const timestamp = Date.now();
+    const record: DeliveryAttempt = { attempt, timestamp, durationMs: 0 };
+    let retryable = true;
+
+    try {
+        const blocked = await checkCallbackTarget(delivery.url);
+        if (blocked) {
+            retryable = false;
+            throw new Error(blocked);
+        }
+
+        const response = await fetch(delivery.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'terminus-webhooks',
+                'X-Terminus-Event': delivery.event,
+                'X-Terminus-Delivery': delivery.deliveryId,
+                'X-Terminus-Timestamp': String(timestamp),
+                ...(WEBHOOK_SECRET && { 'X-Terminus-Signature': signWebhook(timestamp, body) }),
+            },
+            body,
+            redirect: 'manual',     // A redirect could point anywhere, including private addresses
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            dispatcher: callbackAgent,
+        });
+        record.statusCode = response.status;
+        if (response.status >= 300 && response.status < 400) record.error = `HTTP ${response.status} (redirects are not followed)`;
+        else if (!response.ok) record.error = `HTTP ${response.status}`;
+    } catch (error) {
+        // Connection failures surface as "fetch failed" with the reason as the cause
+        const { message, cause } = error as Error & { cause?: Error };
+        record.error = cause?.message ?? message;
+    }
+
+    record.durationMs = Date.now() - timestamp;
+    delivery.attempts.push(record);
+
+    if (!record.error) {
+        delivery.status = 'DELIVERED';
+        delivery.deliveredAt = Date.now();
+        delivery.nextAttemptAt = undefined;
+        logger.info('Webhooks', `📬 ${delivery.event} for ${delivery.subjectId} delivered (attempt ${attempt})`);
+        return;
+    }
+
+    if (attempt >= MAX_ATTEMPTS || !retryable) {
+        delivery.status = 'FAILED';
+        delivery.nextAttemptAt = undefined;
+        logger.error('Webhooks', `❌ ${delivery.event} for ${delivery.subjectId} failed after ${attempt} attempts: ${record.error}`);
+        return;
+    }
+
+    const delay = BASE_BACKOFF_MS * Math.pow(2, attempt - 1);
+    delivery.nextAttemptAt = Date.now() + delay;
+    logger.warn('Webhooks', `🔁 ${delivery.event} for ${delivery.subjectId} failed (${record.error}), retrying in ${delay}ms`);
+    setTimeout(() => void attemptDelivery(delivery, body), delay).unref();
+}
+
+/**
+ * Deliver a finished job as its final JOB_RESULT payload. Jobs that never got a
+ * result from a node (queue timeout, dead letter, cancellation) get one synthesized.
+ */
+export function sendJobWebhook(url: string, result: DispatchResult): WebhookDelivery {
+    const jobId = result.jobId ?? 'unknown';
+    return sendWebhook(url, 'job.completed', jobId, result.result ?? syntheticJobResult(jobId, result));
+}
+
+function syntheticJobResult(jobId: string, result: DispatchResult): JobResultMessage['payload'] {
+    const run = getRun(jobId);
+    const startTime = run?.startedAt ?? run?.createdAt ?? Date.now();
+    const endTime = run?.completedAt ?? Date.now();
+
+    return {
+        jobId,
+        runId: result.runId ?? run?.runId ?? '',
+        status: run?.status === 'CANCELLED' ? 'CANCELLED' : run?.status === 'TIMEOUT' ? 'TIMEOUT' : 'ERROR',
+        logs: [],
+        error: { code: 'DISPATCH_FAILED', message: result.error ?? 'Job failed' },
+        metrics: { startTime, endTime, durationMs: endTime - startTime },
+    };
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+export function getDelivery(deliveryId: string): WebhookDelivery | undefined {
+    return deliveries.get(deliveryId);
+}
+
+/**
+ * List deliveries, newest first.
+ */
+export function listDeliveries(filter: {
+    subjectId?: string;
+    status?: WebhookDelivery['status'];
+    limit?: number;
+} = {}): WebhookDelivery[] {
+    let result = Array.from(deliveries.values());
+
+    if (filter.subjectId) {
+        result = result.filter(d => d.subjectId === filter.subjectId);
+    }
+    if (filter.status) {
+        result = result.filter(d => d.status === filter.status);
+    }
+
+    const limit = filter.limit || 100;
+    return result.slice(-limit).reverse();
+}
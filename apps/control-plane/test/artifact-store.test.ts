@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync } from 'fs';
+import { join } from 'path';
+import os from 'os';
+import { hashContent } from '@terminus/protocol';
+
+const dataDir = mkdtempSync(join(os.tmpdir(), 'terminus-test-'));
+process.env.TERMINUS_DATA_DIR = dataDir;
+const { getArtifactInfo, listArtifacts, readArtifact, storeArtifact } = await import('../src/artifact-store.js');
+
+const WASM = Buffer.from([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]);
+
+test('artifacts are addressed by the SHA-256 of their content', () => {
+    const info = storeArtifact('script', 'return 1;');
+    assert.equal(info.hash, hashContent('return 1;'));
+    assert.equal(info.size, 9);
+    assert.ok(existsSync(join(dataDir, 'artifacts', `${info.hash}.script`)));
+    assert.equal(readArtifact(info.hash, 'script')?.toString('utf-8'), 'return 1;');
+    assert.deepEqual(getArtifactInfo(info.hash, 'script'), info);
+});
+
+test('storing the same content again returns the existing artifact', () => {
+    const first = storeArtifact('script', 'return 2;');
+    const second = storeArtifact('script', Buffer.from('return 2;'));
+    assert.equal(second, first);
+});
+
+test('wasm artifacts must be WebAssembly modules', () => {
+    assert.throws(() => storeArtifact('wasm', 'not wasm'), /Not a WebAssembly module/);
+    assert.equal(storeArtifact('wasm', WASM).kind, 'wasm');
+    assert.deepEqual(listArtifacts('wasm').map(a => a.hash), [hashContent(WASM)]);
+});
+
+test('the same content stored as another kind is a separate artifact', () => {
+    const file = storeArtifact('file', WASM);
+    assert.equal(file.kind, 'file');
+    assert.ok(existsSync(join(dataDir, 'artifacts', `${file.hash}.file`)));
+    assert.equal(getArtifactInfo(file.hash, 'wasm')?.kind, 'wasm');
+    assert.equal(getArtifactInfo(file.hash, 'file')?.kind, 'file');
+
+    const script = storeArtifact('script', 'return 3;');
+    assert.equal(getArtifactInfo(script.hash, 'wasm'), undefined);
+    assert.equal(readArtifact(script.hash, 'file'), undefined);
+});
+
+test('unknown hashes have no info or content', () => {
+    assert.equal(getArtifactInfo('0'.repeat(64), 'script'), undefined);
+    assert.equal(readArtifact('0'.repeat(64), 'script'), undefined);
+});
@@ -0,0 +1,34 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'fs';
+import { join } from 'path';
+import os from 'os';
+
+process.env.TERMINUS_DATA_DIR = mkdtempSync(join(os.tmpdir(), 'terminus-test-'));
+const { submitJob, validateDispatchOptions, stopScheduler } = await import('../src/dispatcher.js');
+const { getPendingJobs } = await import('../src/job-queue.js');
+
+after(() => stopScheduler());
+
+test('requiredCapabilities must be an array of strings', () => {
+    assert.equal(validateDispatchOptions({ requiredCapabilities: ['gpu'] }), null);
+    assert.match(validateDispatchOptions({ requiredCapabilities: 'gpu' as unknown as string[] }) ?? '', /array of strings/);
+    assert.match(validateDispatchOptions({ requiredCapabilities: [1] as unknown as string[] }) ?? '', /array of strings/);
+});
+
+test('timeouts must be bounded integers', () => {
+    assert.equal(validateDispatchOptions({ timeout: 5000, queueTimeout: 0 }), null);
+    assert.match(validateDispatchOptions({ timeout: 1.5 }) ?? '', /"timeout"/);
+    assert.match(validateDispatchOptions({ timeout: 1000 }) ?? '', /"timeout"/);
+    assert.match(validateDispatchOptions({ timeout: '5000' as unknown as number }) ?? '', /"timeout"/);
+    assert.match(validateDispatchOptions({ timeout: 24 * 60 * 60 * 1000 }) ?? '', /"timeout"/);
+    assert.match(validateDispatchOptions({ queueTimeout: -1 }) ?? '', /"queueTimeout"/);
+});
+
+test('invalid jobs are refused before they reach the queue', () => {
+    assert.throws(
+        () => submitJob({ input: {}, requiredCapabilities: 'gpu' as unknown as string[] }),
+        /array of strings/
+    );
+    assert.equal(getPendingJobs().length, 0);
+});
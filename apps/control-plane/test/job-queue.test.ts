@@ -0,0 +1,158 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { RegisteredNode } from '@terminus/protocol';
+
+process.env.MAX_JOBS_PER_USER = '2';
+const queue = await import('../src/job-queue.js');
+type JobPriority = import('../src/job-queue.js').JobPriority;
+
+const node: RegisteredNode = {
+    nodeId: 'node-1',
+    capabilities: ['llm'],
+    version: '0.0.1',
+    protocolVersion: '1.12.0',
+    features: [],
+    specs: { os: 'linux', arch: 'x64', cpuCores: 4, totalMemoryGB: 8, nodeVersion: 'v20.0.0' },
+    tools: [],
+    maxConcurrentJobs: 4,
+    reservedJobs: 0,
+    labels: {},
+    taints: [],
+    status: 'ONLINE',
+    connectedAt: 0,
+    lastHeartbeat: 0,
+    metrics: { cpuUsage: 0, memoryUsage: 0, activeJobs: 0 },
+};
+
+let nextId = 0;
+
+function enqueue(owner: string, priority: JobPriority = 'NORMAL', requiredCapabilities: string[] = []) {
+    const id = ++nextId;
+    return queue.enqueue({
+        jobId: `job-${id}`,
+        runId: `run-${id}`,
+        agentId: 'agent',
+        input: {},
+        timeout: 1000,
+        requiredCapabilities,
+        constraints: [],
+        tolerations: [],
+        tools: [],
+        runtime: 'javascript',
+        owner,
+        priority,
+    });
+}
+
+function drainOwners(count: number): string[] {
+    const owners: string[] = [];
+    for (let i = 0; i < count; i++) {
+        const job = queue.dequeue(node);
+        if (!job) break;
+        owners.push(job.owner);
+    }
+    return owners;
+}
+
+test('owners at the same priority are served in turn', () => {
+    for (let i = 0; i < 3; i++) enqueue('alice');
+    for (let i = 0; i < 3; i++) enqueue('bob');
+
+    assert.deepEqual(drainOwners(6), ['alice', 'bob', 'alice', 'bob', 'alice', 'bob']);
+    assert.equal(queue.getQueueStats().pending, 0);
+});
+
+test('HIGH priority gets four times the share of LOW', () => {
+    for (let i = 0; i < 8; i++) enqueue('high', 'HIGH');
+    for (let i = 0; i < 8; i++) enqueue('low', 'LOW');
+
+    const served = drainOwners(10);
+    assert.equal(served.filter(o => o === 'high').length, 8);
+    assert.equal(served.filter(o => o === 'low').length, 2);
+    drainOwners(16);
+});
+
+test('owners at their concurrency cap wait; anonymous jobs are exempt', () => {
+    for (let i = 0; i < 3; i++) enqueue('carol');
+    for (let i = 0; i < 3; i++) enqueue(queue.ANONYMOUS_OWNER);
+
+    const running = [];
+    for (let job = queue.dequeue(node); job; job = queue.dequeue(node)) {
+        queue.markRunning(job, node.nodeId);
+        running.push(job);
+    }
+    assert.equal(running.filter(j => j.owner === 'carol').length, 2);
+    assert.equal(running.filter(j => j.owner === queue.ANONYMOUS_OWNER).length, 3);
+    assert.equal(queue.getQueueStats().owners.carol.atCap, true);
+
+    queue.markComplete(running[0].runId, true);
+    const next = queue.dequeue(node);
+    assert.equal(next?.owner, 'carol');
+
+    for (const job of running.slice(1)) queue.markComplete(job.runId, true);
+});
+
+test('failed attempts are retried, then moved to the dead letter queue', () => {
+    const job = enqueue('dave');
+    assert.equal(job.maxRetries, 3);
+
+    const statuses = [];
+    for (let attempt = 0; attempt < job.maxRetries; attempt++) {
+        const next = queue.dequeue(node);
+        assert.equal(next?.jobId, job.jobId);
+        queue.markRunning(next!, node.nodeId);
+        statuses.push(queue.markTimeout(job.runId, 'Node lost'));
+    }
+
+    assert.deepEqual(statuses, ['PENDING', 'PENDING', 'DEAD']);
+    assert.equal(queue.dequeue(node), null);
+
+    const dead = queue.getDeadLetterJobs().find(record => record.job.jobId === job.jobId);
+    assert.equal(dead?.status, 'DEAD');
+    assert.equal(dead?.error, 'Exceeded max retries (3): Node lost');
+});
+
+test('jobs are only handed to nodes that can run them', () => {
+    const job = enqueue('erin', 'NORMAL', ['gpu']);
+    assert.equal(queue.dequeue(node), null);
+    assert.equal(queue.dequeue({ ...node, capabilities: ['llm', 'gpu'] })?.jobId, job.jobId);
+});
+
+test('removePending drops a queued job', () => {
+    const job = enqueue('frank');
+    assert.equal(queue.removePending(job.jobId)?.jobId, job.jobId);
+    assert.equal(queue.removePending(job.jobId), null);
+    assert.equal(queue.dequeue(node), null);
+});
+
+test('a malformed job is skipped instead of breaking dequeue for the others', () => {
+    const bad = enqueue('grace', 'NORMAL', 'gpu' as unknown as string[]);
+    const good = enqueue('grace');
+    assert.equal(queue.dequeue(node)?.jobId, good.jobId);
+    assert.equal(queue.dequeue(node), null);
+    assert.equal(queue.removePending(bad.jobId)?.jobId, bad.jobId);
+});
+
+test('completed and dead-lettered records are capped, oldest first', () => {
+    const first = enqueue('heidi');
+    for (let attempt = 0; attempt < first.maxRetries; attempt++) {
+        queue.markRunning(queue.dequeue(node)!, node.nodeId);
+        queue.markTimeout(first.runId);
+    }
+
+    for (let i = 0; i < 1000; i++) {
+        const job = enqueue(queue.ANONYMOUS_OWNER);
+        for (let attempt = 0; attempt < job.maxRetries; attempt++) {
+            queue.markRunning(queue.dequeue(node)!, node.nodeId);
+            queue.markTimeout(job.runId);
+        }
+        const done = enqueue(queue.ANONYMOUS_OWNER);
+        queue.markRunning(queue.dequeue(node)!, node.nodeId);
+        queue.markComplete(done.runId, true);
+    }
+
+    const stats = queue.getQueueStats();
+    assert.equal(stats.completed, 1000);
+    assert.equal(stats.deadLetter, 1000);
+    assert.equal(queue.getDeadLetterJobs().some(record => record.job.jobId === first.jobId), false);
+});
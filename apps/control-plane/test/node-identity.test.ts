@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync } from 'fs';
+import { join } from 'path';
+import os from 'os';
+
+const dataDir = mkdtempSync(join(os.tmpdir(), 'terminus-test-'));
+process.env.TERMINUS_DATA_DIR = dataDir;
+const { checkNodeIdentity, checkSharedSecretNode, getNodeIdentity, revokeNodeIdentity } = await import('../src/node-identity.js');
+
+const KEY_A = '0xAAAAaaaaAAAAaaaaAAAAaaaaAAAAaaaaAAAAaaaa';
+const KEY_B = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+
+test('a node ID is bound to the first key that authenticates it', () => {
+    const first = checkNodeIdentity('node-1', KEY_A);
+    assert.ok(first.valid);
+    assert.equal(first.identity.address, KEY_A.toLowerCase());
+
+    assert.equal(checkNodeIdentity('node-1', KEY_A.toLowerCase()).valid, true);
+
+    const other = checkNodeIdentity('node-1', KEY_B);
+    assert.ok(!other.valid);
+    assert.match(other.error, /bound to a different key/);
+});
+
+test('bindings are persisted to the data directory', () => {
+    const file = join(dataDir, 'node-identities.json');
+    assert.ok(existsSync(file));
+    const saved = JSON.parse(readFileSync(file, 'utf-8')) as { nodeId: string }[];
+    assert.ok(saved.some(identity => identity.nodeId === 'node-1'));
+});
+
+test('a revoked key can no longer authenticate under any node ID', () => {
+    checkNodeIdentity('node-2', KEY_B);
+    const revoked = revokeNodeIdentity('node-2', 'compromised');
+    assert.equal(revoked?.revoked, true);
+    assert.equal(revoked?.revokeReason, 'compromised');
+
+    const same = checkNodeIdentity('node-2', KEY_B);
+    assert.ok(!same.valid);
+    assert.match(same.error, /revoked/);
+
+    const renamed = checkNodeIdentity('node-3', KEY_B);
+    assert.ok(!renamed.valid);
+    assert.equal(getNodeIdentity('node-3'), undefined);
+});
+
+test('the shared secret cannot claim bound or revoked node IDs', () => {
+    assert.equal(checkSharedSecretNode('node-legacy'), null);
+    assert.match(checkSharedSecretNode('node-1') ?? '', /bound to a wallet key/);
+    assert.match(checkSharedSecretNode('node-2') ?? '', /revoked/);
+});
+
+test('revoking an unknown node returns undefined', () => {
+    assert.equal(revokeNodeIdentity('node-unknown'), undefined);
+});
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { WebSocket } from 'ws';
+import { nodeRegistry } from '../src/registry.js';
+
+nodeRegistry.register('node-1', {} as WebSocket, {
+    capabilities: [],
+    version: '0.0.1',
+    protocolVersion: '1.12.0',
+    features: [],
+    specs: { os: 'linux', arch: 'x64', cpuCores: 4, totalMemoryGB: 8, nodeVersion: 'v20.0.0' },
+    tools: [],
+    maxConcurrentJobs: 1,
+    labels: {},
+    taints: [],
+});
+
+test('latency is a moving average of round trips measured by the control plane', () => {
+    nodeRegistry.recordLatency('node-1', 100);
+    assert.equal(nodeRegistry.getNodeStats('node-1')?.latencyMs, 100);
+    nodeRegistry.recordLatency('node-1', 200);
+    assert.equal(nodeRegistry.getNodeStats('node-1')?.latencyMs, 120);
+});
+
+test('heartbeats update metrics but not latency', () => {
+    nodeRegistry.updateHeartbeat('node-1', { cpuUsage: 50, memoryUsage: 10, activeJobs: 0 });
+    assert.equal(nodeRegistry.get('node-1')?.metrics.cpuUsage, 50);
+    assert.equal(nodeRegistry.getNodeStats('node-1')?.latencyMs, 120);
+});
+
+test('latency for unknown nodes is ignored', () => {
+    nodeRegistry.recordLatency('node-unknown', 5);
+    assert.equal(nodeRegistry.getNodeStats('node-unknown'), undefined);
+});
@@ -0,0 +1,13 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRun, getRun, listRuns } from '../src/run-store.js';
+
+test('runs record their submitting wallet and can be listed by it', () => {
+    createRun('job-a', 'run-a', 'agent', { secret: 1 }, undefined, '0xabc');
+    createRun('job-b', 'run-b', 'agent', { secret: 2 });
+
+    assert.equal(getRun('job-a')?.owner, '0xabc');
+    assert.equal(getRun('job-b')?.owner, undefined);
+    assert.deepEqual(listRuns({ owner: '0xabc' }).map(run => run.jobId), ['job-a']);
+    assert.equal(listRuns().length, 2);
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { issueWalletChallenge, verifyWalletProof } from '../src/wallet-proofs.js';
+
+const wallet = ethers.Wallet.createRandom();
+
+test('a signed challenge proves the wallet, once', async () => {
+    const challenge = issueWalletChallenge(wallet.address);
+    assert.equal(challenge.address, wallet.address.toLowerCase());
+
+    const signature = await wallet.signMessage(challenge.message);
+    assert.deepEqual(verifyWalletProof(wallet.address, challenge.nonce, signature), { valid: true, address: wallet.address.toLowerCase() });
+
+    const replay = verifyWalletProof(wallet.address, challenge.nonce, signature);
+    assert.ok(!replay.valid);
+    assert.match(replay.error, /Unknown or expired/);
+});
+
+test('a signature from another key is refused', async () => {
+    const challenge = issueWalletChallenge(wallet.address);
+    const signature = await ethers.Wallet.createRandom().signMessage(challenge.message);
+
+    const proof = verifyWalletProof(wallet.address, challenge.nonce, signature);
+    assert.ok(!proof.valid);
+    assert.match(proof.error, /does not match/);
+});
+
+test('a nonce only proves the address it was issued for', async () => {
+    const other = ethers.Wallet.createRandom();
+    const challenge = issueWalletChallenge(wallet.address);
+    const signature = await other.signMessage(challenge.message);
+
+    const proof = verifyWalletProof(other.address, challenge.nonce, signature);
+    assert.ok(!proof.valid);
+    assert.match(proof.error, /different address/);
+});
+
+test('malformed signatures are refused', () => {
+    const challenge = issueWalletChallenge(wallet.address);
+    const proof = verifyWalletProof(wallet.address, challenge.nonce, '0x1234');
+    assert.ok(!proof.valid);
+    assert.match(proof.error, /Invalid wallet signature/);
+});
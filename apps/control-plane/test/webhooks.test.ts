@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+process.env.WEBHOOK_ALLOWED_HOSTS = '127.0.0.1, hooks.internal';
+
+const { checkCallbackTarget, getDelivery, isValidCallbackUrl, lookupCallbackHost, sendWebhook, signWebhook } = await import('../src/webhooks.js');
+
+async function firstAttempt(deliveryId: string) {
+    for (let i = 0; i < 100; i++) {
+        const attempt = getDelivery(deliveryId)?.attempts[0];
+        if (attempt) return attempt;
+        await sleep(20);
+    }
+    throw new Error('No delivery attempt recorded');
+}
+
+test('signWebhook is an HMAC-SHA256 over timestamp.body', () => {
+    assert.equal(
+        signWebhook(1700000000, '{"ok":true}', 's3cret'),
+        'sha256=95e532fd0d484d8db110942dc66b379dd229f38f9f5df856e97709db2bb1e3ac'
+    );
+});
+
+test('signWebhook binds the timestamp and the secret', () => {
+    const signature = signWebhook(1700000000, '{"ok":true}', 's3cret');
+    assert.notEqual(signWebhook(1700000001, '{"ok":true}', 's3cret'), signature);
+    assert.notEqual(signWebhook(1700000000, '{"ok":true}', 'other'), signature);
+    assert.notEqual(signWebhook(1700000000, '{"ok":false}', 's3cret'), signature);
+});
+
+test('isValidCallbackUrl only accepts http(s) URLs', () => {
+    assert.equal(isValidCallbackUrl('https://example.com/hook'), true);
+    assert.equal(isValidCallbackUrl('http://example.com:8080/hook'), true);
+    assert.equal(isValidCallbackUrl('file:///etc/passwd'), false);
+    assert.equal(isValidCallbackUrl('not a url'), false);
+    assert.equal(isValidCallbackUrl(42), false);
+});
+
+test('isValidCallbackUrl rejects private, loopback and link-local hosts', () => {
+    assert.equal(isValidCallbackUrl('http://169.254.169.254/latest/meta-data/'), false);
+    assert.equal(isValidCallbackUrl('http://10.1.2.3/hook'), false);
+    assert.equal(isValidCallbackUrl('http://192.168.0.1/hook'), false);
+    assert.equal(isValidCallbackUrl('http://localhost:3000/hook'), false);
+    assert.equal(isValidCallbackUrl('http://[::1]/hook'), false);
+    assert.equal(isValidCallbackUrl('http://[::ffff:127.0.0.2]/hook'), false);
+    assert.equal(isValidCallbackUrl('http://[fd00::1]/hook'), false);
+    assert.equal(isValidCallbackUrl('http://0x7f.2/hook'), false);
+    assert.equal(isValidCallbackUrl('https://8.8.8.8/hook'), true);
+});
+
+test('WEBHOOK_ALLOWED_HOSTS lets the operator allow private hosts', async () => {
+    assert.equal(isValidCallbackUrl('http://127.0.0.1:9000/hook'), true);
+    assert.equal(isValidCallbackUrl('http://hooks.internal/hook'), true);
+    assert.equal(await checkCallbackTarget('http://127.0.0.1:9000/hook'), null);
+});
+
+test('checkCallbackTarget checks the addresses a hostname resolves to', async () => {
+    assert.match(await checkCallbackTarget('http://localhost/hook') ?? '', /resolves to a private address/);
+    assert.match(await checkCallbackTarget('http://169.254.169.254/') ?? '', /169\.254\.169\.254/);
+});
+
+test('NAT64 and 6to4 addresses are blocked', () => {
+    assert.equal(isValidCallbackUrl('http://[64:ff9b::a9fe:a9fe]/hook'), false);
+    assert.equal(isValidCallbackUrl('http://[2002:a9fe:a9fe::1]/hook'), false);
+});
+
+test('connections only get addresses that passed the check', async () => {
+    const lookupOnce = (hostname: string) => new Promise<{ error: NodeJS.ErrnoException | null; address: unknown }>(resolve =>
+        lookupCallbackHost(hostname, { all: true }, (error, address) => resolve({ error, address }))
+    );
+
+    const blocked = await lookupOnce('localhost');
+    assert.equal(blocked.error?.code, 'EADDRNOTALLOWED');
+    assert.match(blocked.error?.message ?? '', /private address/);
+});
+
+test('deliveries to blocked hosts fail without retrying', async () => {
+    const delivery = sendWebhook('http://10.0.0.1/hook', 'job.completed', 'job-blocked', {});
+    const attempt = await firstAttempt(delivery.deliveryId);
+    assert.match(attempt.error ?? '', /private address/);
+    assert.equal(delivery.status, 'FAILED');
+    assert.equal(delivery.nextAttemptAt, undefined);
+});
+
+test('deliveries do not follow redirects', async () => {
+    const requests: string[] = [];
+    const server = createServer((req, res) => {
+        requests.push(req.url ?? '');
+        res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' }).end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+        const { port } = server.address() as AddressInfo;
+        const delivery = sendWebhook(`http://127.0.0.1:${port}/hook`, 'job.completed', 'job-redirect', {});
+        const attempt = await firstAttempt(delivery.deliveryId);
+        assert.equal(attempt.statusCode, 302);
+        assert.match(attempt.error ?? '', /redirects are not followed/);
+        assert.deepEqual(requests, ['/hook']);
+    } finally {
+        server.close();
+    }
+});
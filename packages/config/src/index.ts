@@ -17,14 +17,59 @@ export const config = {
         heartbeatInterval: 5000,       // How often nodes send heartbeat (ms)
         heartbeatTimeout: 15000,       // Max time without heartbeat before disconnect (ms)
         authTimeout: 10000,            // Max time to receive AUTH after connection (ms)
+        sessionResumeGrace: 30000,     // How long a disconnected node keeps its session and pending jobs (ms)
         reconnectBaseDelay: 1000,      // Initial reconnect delay (ms)
         reconnectMaxDelay: 30000,      // Maximum reconnect delay (ms)
         reconnectMultiplier: 2,        // Exponential backoff multiplier
     },
 
-    // Secrets (replace with proper auth later)
+    // Protocol negotiation (max is the protocol version the control plane is built with)
+    protocol: {
+        minVersion: process.env.PROTOCOL_MIN_VERSION ?? '1.0.0',
+    },
+
+    // Node auth: nodes sign an AUTH_CHALLENGE nonce with their wallet key.
+    // The shared secret is only accepted from wallet-less nodes when explicitly allowed.
     auth: {
         nodeSecret: process.env.NODE_SECRET ?? 'terminus-dev-secret',
+        allowSharedSecret: process.env.ALLOW_SHARED_SECRET === 'true',
+    },
+
+    // Job scheduling: weighted fair queuing across submitters (X-Wallet-Address).
+    // Each priority class advances its owner's virtual time by 1/weight per job.
+    scheduling: {
+        maxConcurrentPerUser: parseInt(process.env.MAX_JOBS_PER_USER ?? '4', 10),  // 0 = unlimited
+        maxConcurrentPerNode: parseInt(process.env.MAX_JOBS_PER_NODE ?? '64', 10),  // Ceiling on a node's declared slots
+        priorityWeights: { HIGH: 4, NORMAL: 2, LOW: 1 },
+    },
+
+    // Node placement: 'scored' | 'least-loaded' | 'round-robin' | 'random'.
+    // The scored strategy ranks nodes by a weighted sum of these 0-1 factors.
+    placement: {
+        strategy: process.env.PLACEMENT_STRATEGY ?? 'scored',
+        weights: {
+            load: 0.4,                 // Heartbeat cpu/memory usage and active jobs per core
+            reliability: 0.3,          // Historical job success rate
+            freshness: 0.15,           // Age of the last heartbeat
+            reputation: 0.1,           // On-chain reputation of the node's agents
+            latency: 0.05,             // Heartbeat transit time
+        },
+    },
+
+    // WASM agents: instruction budget for jobs whose agent doesn't set one
+    wasm: {
+        defaultFuel: parseInt(process.env.WASM_DEFAULT_FUEL ?? '1000000000', 10),
+    },
+
+    // Job code (agent scripts, wasm modules) stored and shipped by content hash
+    artifacts: {
+        maxBytes: 16 * 1024 * 1024,
+    },
+
+    // Control plane persistence (node identities, labels, artifacts, balances);
+    // defaults to apps/control-plane/data
+    storage: {
+        dataDir: process.env.TERMINUS_DATA_DIR,
     },
 
     // Logging
@@ -7,8 +7,14 @@
 // Messages
 export * from './messages.js';
 
+// Schemas
+export * from './schemas.js';
+
 // Types
 export * from './types.js';
 
+// Versioning
+export * from './version.js';
+
 // Utilities
 export * from './utils.js';
@@ -5,13 +5,22 @@
 // All communication flows through these well-defined schemas.
 // =============================================================================
 
+import type { ProtocolFeature } from './version.js';
+import type { ContainerSpec, JobRuntime, RunEvent, ToolManifest } from './types.js';
+
 export type MessageType =
+    | 'AUTH_CHALLENGE'
     | 'AUTH'
     | 'AUTH_ACK'
     | 'HEARTBEAT'
     | 'HEARTBEAT_ACK'
     | 'JOB_ASSIGN'
     | 'JOB_RESULT'
+    | 'RESULT_ACK'
+    | 'JOB_CANCEL'
+    | 'JOB_PROGRESS'
+    | 'FETCH_ARTIFACT'
+    | 'ARTIFACT'
     | 'AGENT_JOB'
     | 'AGENT_JOB_RESULT'
     | 'ERROR';
@@ -31,7 +40,19 @@ export interface BaseMessage {
 // -----------------------------------------------------------------------------
 
 /**
- * Node → Backend: First message after connection.
+ * Backend → Node: First message after connection.
+ * A single-use nonce the node must sign with its identity (wallet) key in AUTH.
+ */
+export interface AuthChallengeMessage extends BaseMessage {
+    type: 'AUTH_CHALLENGE';
+    payload: {
+        nonce: string;
+        expiresAt: number;           // Epoch ms after which the nonce is rejected
+    };
+}
+
+/**
+ * Node → Backend: Reply to AUTH_CHALLENGE.
  * Node introduces itself and proves ownership.
  */
 export interface AuthMessage extends BaseMessage {
@@ -41,7 +62,7 @@ export interface AuthMessage extends BaseMessage {
         capabilities: string[];       // ['python-3.10', 'docker', 'nvidia-gpu']
         agentTypes?: string[];        // ['travel-planner', 'budget-planner'] - agents this node can run
         wallet?: string;              // Wallet address for payments (optional)
-        walletSignature?: string;     // Signature proving wallet ownership: sign("terminus-auth:{nodeId}")
+        walletSignature?: string;     // Signature proving wallet ownership: sign("terminus-auth:{nodeId}:{nonce}")
         specs: {                      // Machine specifications
             os: string;
             arch: string;
@@ -49,8 +70,13 @@ export interface AuthMessage extends BaseMessage {
             totalMemoryGB: number;
             nodeVersion: string;
         };
-        secret: string;              // Simple secret for now, signature later
+        secret?: string;             // Legacy shared secret, only for nodes without a wallet
         version: string;             // Node runtime version
+        protocolVersion?: string;    // Protocol version the node speaks (absent on legacy nodes)
+        features?: string[];         // Protocol features the node supports
+        sessionToken?: string;       // Token from a previous AUTH_ACK to resume that session
+        maxConcurrentJobs?: number;  // Jobs the node runs at once; extra assignments wait in its local queue
+        tools?: ToolManifest[];      // Manifests for the node's tool:* capabilities
     };
 }
 
@@ -63,6 +89,10 @@ export interface AuthAckMessage extends BaseMessage {
         success: boolean;
         message?: string;
         heartbeatInterval?: number;  // How often to send heartbeats (ms)
+        protocolVersion?: string;    // Negotiated protocol version for this session
+        features?: ProtocolFeature[];  // Features enabled for this session
+        sessionToken?: string;       // Present with 'session-resume': send in AUTH to resume after a reconnect
+        resumed?: boolean;           // True when a previous session (and its pending jobs) was resumed
     };
 }
 
@@ -110,9 +140,26 @@ export interface JobAssignMessage extends BaseMessage {
         runId: string;
         input: unknown;
         timeout?: number;            // Max execution time (ms)
+        script?: string;             // Agent code to run (default agent if omitted)
+        scriptHash?: string;         // Hex SHA-256 of the agent code, sent instead of script to nodes with 'artifacts'
+        runtime?: JobRuntime;        // Language of the script; javascript if omitted
+        container?: ContainerSpec;   // Image to run for the container runtime
+        wasm?: {                     // Module to run for the wasm runtime
+            hash: string;            // Hex SHA-256 of the module bytes
+            fuel: number;            // Instruction budget
+            module?: string;         // Base64 module bytes, for nodes without 'artifacts'
+        };
+        context?: Record<string, unknown>;  // Persisted agent memory
+        toolCall?: {                 // Direct tool invocation instead of a script
+            tool: string;
+            params?: unknown;
+        };
+        tools?: string[];            // Node tools the script may call as tools.<name>(params)
     };
 }
 
+export type JobResultStatus = 'SUCCESS' | 'ERROR' | 'TIMEOUT' | 'CANCELLED';
+
 /**
  * Node → Backend: Job execution result.
  */
@@ -121,9 +168,15 @@ export interface JobResultMessage extends BaseMessage {
     payload: {
         jobId: string;
         runId: string;
-        status: 'SUCCESS' | 'ERROR' | 'TIMEOUT';
+        status: JobResultStatus;
         output?: unknown;
         logs: string[];               // Captured console.log outputs from sandbox
+        memory?: Record<string, unknown>;  // Updated agent memory to persist
+        artifacts?: {                 // Files the job returned (only with 'job-artifacts')
+            name: string;
+            contentType: string;
+            content: string;          // Base64
+        }[];
         error?: {
             code: string;
             message: string;
@@ -133,10 +186,81 @@ export interface JobResultMessage extends BaseMessage {
             startTime: number;
             endTime: number;
             durationMs: number;
+            toolCalls?: number;       // Tool invocations made by the script
+            fuelUsed?: number;        // Instructions executed by a wasm module
         };
     };
 }
 
+/**
+ * Backend → Node: Result received; the node can drop it from its outbox.
+ * Sent for JOB_RESULT (keyed by runId) and AGENT_JOB_RESULT (jobId doubles as runId),
+ * including duplicates replayed after a session resume.
+ * Only sent to nodes that negotiated the 'session-resume' feature.
+ */
+export interface ResultAckMessage extends BaseMessage {
+    type: 'RESULT_ACK';
+    payload: {
+        runId: string;
+    };
+}
+
+/**
+ * Backend → Node: Abort a running job (JOB_ASSIGN or AGENT_JOB).
+ * The node stops execution and reports a CANCELLED result.
+ * Only sent to nodes that negotiated the 'cancellation' feature.
+ */
+export interface JobCancelMessage extends BaseMessage {
+    type: 'JOB_CANCEL';
+    payload: {
+        jobId: string;
+        runId?: string;              // Attempt to abort (with 'run-cancellation'); agent jobs use their jobId
+        reason: 'REQUESTED' | 'TIMEOUT';
+    };
+}
+
+/**
+ * Node → Backend: Incremental progress for a running job (JOB_ASSIGN or AGENT_JOB).
+ * Emitted for log lines, tool calls and partial LLM tokens so long runs don't look frozen.
+ * Only sent by nodes that negotiated the 'streaming' feature.
+ */
+export interface JobProgressMessage extends BaseMessage {
+    type: 'JOB_PROGRESS';
+    payload: {
+        jobId: string;
+        event: RunEvent;
+    };
+}
+
+// -----------------------------------------------------------------------------
+// Artifact Messages
+// -----------------------------------------------------------------------------
+
+/**
+ * Node → Backend: Request job code (agent script or wasm module) by content hash.
+ * Sent when a JOB_ASSIGN references code the node doesn't have cached.
+ * Only sent by nodes that negotiated the 'artifacts' feature.
+ */
+export interface FetchArtifactMessage extends BaseMessage {
+    type: 'FETCH_ARTIFACT';
+    payload: {
+        hash: string;
+    };
+}
+
+/**
+ * Backend → Node: Reply to FETCH_ARTIFACT. Nodes are only sent the code of jobs
+ * assigned to them; otherwise, or if the hash is unknown, error is set instead.
+ */
+export interface ArtifactMessage extends BaseMessage {
+    type: 'ARTIFACT';
+    payload: {
+        hash: string;
+        content?: string;            // Base64; the node checks it against the hash
+        error?: string;
+    };
+}
+
 // -----------------------------------------------------------------------------
 // Agent Job Messages (for distributed agent execution)
 // -----------------------------------------------------------------------------
@@ -187,6 +311,14 @@ export interface AgentJobResultMessage extends BaseMessage {
 // Error Messages
 // -----------------------------------------------------------------------------
 
+/**
+ * A single schema violation found while validating an incoming message.
+ */
+export interface ValidationIssue {
+    path: string;                    // Dotted path to the offending field, e.g. 'payload.specs.cpuCores'
+    message: string;
+}
+
 /**
  * Bidirectional: Error notification.
  */
@@ -196,6 +328,7 @@ export interface ErrorMessage extends BaseMessage {
         code: string;
         message: string;
         fatal: boolean;              // If true, connection will be terminated
+        issues?: ValidationIssue[];  // Schema violations for INVALID_MESSAGE
     };
 }
 
@@ -204,12 +337,18 @@ export interface ErrorMessage extends BaseMessage {
 // -----------------------------------------------------------------------------
 
 export type TerminusMessage =
+    | AuthChallengeMessage
     | AuthMessage
     | AuthAckMessage
     | HeartbeatMessage
     | HeartbeatAckMessage
     | JobAssignMessage
     | JobResultMessage
+    | ResultAckMessage
+    | JobCancelMessage
+    | JobProgressMessage
+    | FetchArtifactMessage
+    | ArtifactMessage
     | AgentJobMessage
     | AgentJobResultMessage
     | ErrorMessage;
@@ -0,0 +1,357 @@
+// =============================================================================
+// TERMINUS PROTOCOL - Message Schemas
+// =============================================================================
+// Runtime validation for every message in messages.ts. Objects are strict:
+// unknown fields and wrong types are rejected at the boundary so handlers can
+// trust the typed payloads they receive.
+// =============================================================================
+
+import { z } from 'zod';
+import type {
+    AuthChallengeMessage,
+    AuthMessage,
+    AuthAckMessage,
+    HeartbeatMessage,
+    HeartbeatAckMessage,
+    JobAssignMessage,
+    JobResultMessage,
+    ResultAckMessage,
+    JobCancelMessage,
+    JobProgressMessage,
+    FetchArtifactMessage,
+    ArtifactMessage,
+    AgentJobMessage,
+    AgentJobResultMessage,
+    ErrorMessage,
+    TerminusMessage,
+} from './messages.js';
+import type { ContainerSpec, JobRuntime, ToolManifest, WasmSpec } from './types.js';
+import { PROTOCOL_FEATURES, type ProtocolFeature } from './version.js';
+
+// -----------------------------------------------------------------------------
+// Shared Pieces
+// -----------------------------------------------------------------------------
+
+const baseFields = {
+    traceId: z.string().min(1),
+    timestamp: z.number().int().positive(),
+};
+
+const errorDetailSchema = z.strictObject({
+    code: z.string(),
+    message: z.string(),
+    stack: z.string().optional(),
+});
+
+const recordSchema = z.record(z.string(), z.unknown());
+
+const versionSchema = z.string().regex(/^\d+\.\d+\.\d+$/, 'Expected MAJOR.MINOR.PATCH');
+
+const featureSchema = z.enum(Object.keys(PROTOCOL_FEATURES) as [ProtocolFeature, ...ProtocolFeature[]]);
+
+export const JobRuntimeSchema = z.enum(['javascript', 'python', 'container', 'wasm']) satisfies z.ZodType<JobRuntime>;
+
+export const ContainerSpecSchema = z.strictObject({
+    image: z.string().regex(/^[A-Za-z0-9][\w./:@-]*$/, 'Expected an image reference'),
+    command: z.array(z.string()).optional(),
+    cpus: z.number().positive().optional(),
+    memoryMb: z.number().int().positive().optional(),
+    network: z.boolean().optional(),
+}) satisfies z.ZodType<ContainerSpec>;
+
+const contentHashSchema = z.string().regex(/^[0-9a-f]{64}$/, 'Expected a hex SHA-256 hash');
+
+/**
+ * File names a job may give its artifacts: one path segment, not starting with a dot.
+ */
+export const ARTIFACT_NAME_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}$/;
+
+export const WasmSpecSchema = z.strictObject({
+    hash: contentHashSchema,
+    fuel: z.number().int().positive().optional(),
+}) satisfies z.ZodType<WasmSpec>;
+
+// -----------------------------------------------------------------------------
+// Tools
+// -----------------------------------------------------------------------------
+
+export const ToolManifestSchema = z.strictObject({
+    name: z.string().regex(/^[A-Za-z][\w-]*$/, 'Expected a letter followed by letters, digits, _ or -'),
+    description: z.string(),
+    version: z.string().optional(),
+    parameters: recordSchema,
+    requiredCapabilities: z.array(z.string()).optional(),
+    permissions: z.array(z.enum(['network', 'shell', 'filesystem', 'env'])).optional(),
+}) satisfies z.ZodType<ToolManifest>;
+
+// -----------------------------------------------------------------------------
+// Authentication
+// -----------------------------------------------------------------------------
+
+export const AuthChallengeMessageSchema = z.strictObject({
+    ...baseFields,
+    type: z.literal('AUTH_CHALLENGE'),
+    payload: z.strictObject({
+        nonce: z.string().min(16),
+        expiresAt: z.number().int().positive(),
+    }),
+}) satisfies z.ZodType<AuthChallengeMessage>;
+
+export const AuthMessageSchema = z.strictObject({
+    ...baseFields,
+    type: z.literal('AUTH'),
+    payload: z.strictObject({
+        nodeId: z.string().min(1),
+        capabilities: z.array(z.string()),
+        agentTypes: z.array(z.string()).optional(),
+        wallet: z.string().optional(),
+        walletSignature: z.string().optional(),
+        specs: z.strictObject({
+            os: z.string(),
+            arch: z.string(),
+            cpuCores: z.number().int().nonnegative(),
+            totalMemoryGB: z.number().nonnegative(),
+            nodeVersion: z.string(),
+        }),
+        secret: z.string().optional(),
+        version: z.string(),
+        protocolVersion: versionSchema.optional(),
+        // Plain strings: newer nodes may advertise features this build doesn't know
+        features: z.array(z.string()).optional(),
+        sessionToken: z.string().min(1).optional(),
+        maxConcurrentJobs: z.number().int().positive().optional(),
+        tools: z.array(ToolManifestSchema).optional(),
+    }),
+}) satisfies z.ZodType<AuthMessage>;
+
+export const AuthAckMessageSchema = z.strictObject({
+    ...baseFields,
+    type: z.literal('AUTH_ACK'),
+    payload: z.strictObject({
+        success: z.boolean(),
+        message: z.string().optional(),
+        heartbeatInterval: z.number().int().positive().optional(),
+        protocolVersion: versionSchema.optional(),
+        features: z.array(featureSchema).optional(),
+        sessionToken: z.string().min(1).optional(),
+        resumed: z.boolean().optional(),
+    }),
+}) satisfies z.ZodType<AuthAckMessage>;
+
+// -----------------------------------------------------------------------------
+// Heartbeat
+// -----------------------------------------------------------------------------
+
+export const HeartbeatMessageSchema = z.strictObject({
+    ...baseFields,
+    type: z.literal('HEARTBEAT'),
+    payload: z.strictObject({
+        status: z.enum(['IDLE', 'BUSY', 'DRAINING']),
+        cpuUsage: z.number().min(0).max(100),
+        memoryUsage: z.number().min(0).max(100),
+        activeJobs: z.number().int().nonnegative(),
+    }),
+}) satisfies z.ZodType<HeartbeatMessage>;
+
+export const HeartbeatAckMessageSchema = z.strictObject({
+    ...baseFields,
+    type: z.literal('HEARTBEAT_ACK'),
+    payload: z.strictObject({
+        received: z.boolean(),
+    }),
+}) satisfies z.ZodType<HeartbeatAckMessage>;
+
+// -----------------------------------------------------------------------------
+// Jobs
+// -----------------------------------------------------------------------------
+
+export const JobAssignMessageSchema = z.strictObject({
+    ...baseFields,
+    type: z.literal('JOB_ASSIGN'),
+    payload: z.strictObject({
+        jobId: z.string().min(1),
+        agentId: z.string(),
+        runId: z.string().min(1),
+        input: z.unknown(),
+        timeout: z.number().int().positive().optional(),
+        script: z.string().optional(),
+        scriptHash: contentHashSchema.optional(),
+        runtime: JobRuntimeSchema.optional(),
+        container: ContainerSpecSchema.optional(),
+        wasm: z.strictObject({
+            hash: contentHashSchema,
+            fuel: z.number().int().positive(),
+            module: z.string().optional(),
+        }).optional(),
+        context: recordSchema.optional(),
+        toolCall: z.strictObject({
+            tool: z.string().min(1),
+            params: z.unknown().optional(),
+        }).optional(),
+        tools: z.array(z.string().min(1)).optional(),
+    }),
+}) satisfies z.ZodType<JobAssignMessage>;
+
+export const JobResultMessageSchema = z.strictObject({
+    ...baseFields,
+    type: z.literal('JOB_RESULT'),
+    payload: z.strictObject({
+        jobId: z.string().min(1),
+        runId: z.string().min(1),
+        status: z.enum(['SUCCESS', 'ERROR', 'TIMEOUT', 'CANCELLED']),
+        output: z.unknown().optional(),
+        logs: z.array(z.string()),
+        memory: recordSchema.optional(),
+        artifacts: z.array(z.strictObject({
+            name: z.string().regex(ARTIFACT_NAME_PATTERN, 'Invalid artifact name'),
+            contentType: z.string().min(1),
+            content: z.string(),
+        })).optional(),
+        error: errorDetailSchema.optional(),
+        metrics: z.strictObject({
+            startTime: z.number(),
+            endTime: z.number(),
+            durationMs: z.number().nonnegative(),
+            toolCalls: z.number().int().nonnegative().optional(),
+            fuelUsed: z.number().int().nonnegative().optional(),
+        }),
+    }),
+}) satisfies z.ZodType<JobResultMessage>;
+
+export const ResultAckMessageSchema = z.strictObject({
+    ...baseFields,
+    type: z.literal('RESULT_ACK'),
+    payload: z.strictObject({
+        runId: z.string().min(1),
+    }),
+}) satisfies z.ZodType<ResultAckMessage>;
+
+export const JobCancelMessageSchema = z.strictObject({
+    ...baseFields,
+    type: z.literal('JOB_CANCEL'),
+    payload: z.strictObject({
+        jobId: z.string().min(1),
+        runId: z.string().min(1).optional(),
+        reason: z.enum(['REQUESTED', 'TIMEOUT']),
+    }),
+}) satisfies z.ZodType<JobCancelMessage>;
+
+export const JobProgressMessageSchema = z.strictObject({
+    ...baseFields,
+    type: z.literal('JOB_PROGRESS'),
+    payload: z.strictObject({
+        jobId: z.string().min(1),
+        event: z.strictObject({
+            runId: z.string().min(1),
+            eventId: z.string().min(1),
+            seq: z.number().int().positive(),
+            type: z.enum(['INPUT', 'STEP', 'LOG', 'TOOL_CALL', 'TOKEN', 'OUTPUT', 'ERROR', 'RETRY']),
+            timestamp: z.number(),
+            data: z.unknown(),
+        }),
+    }),
+}) satisfies z.ZodType<JobProgressMessage>;
+
+// -----------------------------------------------------------------------------
+// Artifacts
+// -----------------------------------------------------------------------------
+
+export const FetchArtifactMessageSchema = z.strictObject({
+    ...baseFields,
+    type: z.literal('FETCH_ARTIFACT'),
+    payload: z.strictObject({
+        hash: contentHashSchema,
+    }),
+}) satisfies z.ZodType<FetchArtifactMessage>;
+
+export const ArtifactMessageSchema = z.strictObject({
+    ...baseFields,
+    type: z.literal('ARTIFACT'),
+    payload: z.strictObject({
+        hash: contentHashSchema,
+        content: z.string().optional(),
+        error: z.string().optional(),
+    }),
+}) satisfies z.ZodType<ArtifactMessage>;
+
+// -----------------------------------------------------------------------------
+// Agent Jobs
+// -----------------------------------------------------------------------------
+
+export const AgentJobMessageSchema = z.strictObject({
+    ...baseFields,
+    type: z.literal('AGENT_JOB'),
+    payload: z.strictObject({
+        jobId: z.string().min(1),
+        agentType: z.string().min(1),
+        userQuery: z.string(),
+        context: z.strictObject({
+            conversationId: z.string().optional(),
+            previousMessages: z.array(z.strictObject({
+                role: z.string(),
+                content: z.string(),
+            })).optional(),
+            userData: recordSchema.optional(),
+        }).optional(),
+    }),
+}) satisfies z.ZodType<AgentJobMessage>;
+
+export const AgentJobResultMessageSchema = z.strictObject({
+    ...baseFields,
+    type: z.literal('AGENT_JOB_RESULT'),
+    payload: z.strictObject({
+        jobId: z.string().min(1),
+        success: z.boolean(),
+        response: z.string(),
+        toolsUsed: z.array(z.strictObject({
+            name: z.string(),
+            params: z.unknown(),
+            result: z.unknown(),
+        })).optional(),
+        metrics: z.strictObject({
+            llmTokensUsed: z.number().int().nonnegative().optional(),
+            executionTimeMs: z.number().nonnegative(),
+        }).optional(),
+        error: errorDetailSchema.omit({ stack: true }).optional(),
+    }),
+}) satisfies z.ZodType<AgentJobResultMessage>;
+
+// -----------------------------------------------------------------------------
+// Errors
+// -----------------------------------------------------------------------------
+
+export const ErrorMessageSchema = z.strictObject({
+    ...baseFields,
+    type: z.literal('ERROR'),
+    payload: z.strictObject({
+        code: z.string(),
+        message: z.string(),
+        fatal: z.boolean(),
+        issues: z.array(z.strictObject({
+            path: z.string(),
+            message: z.string(),
+        })).optional(),
+    }),
+}) satisfies z.ZodType<ErrorMessage>;
+
+// -----------------------------------------------------------------------------
+// Union Schema
+// -----------------------------------------------------------------------------
+
+export const TerminusMessageSchema = z.discriminatedUnion('type', [
+    AuthChallengeMessageSchema,
+    AuthMessageSchema,
+    AuthAckMessageSchema,
+    HeartbeatMessageSchema,
+    HeartbeatAckMessageSchema,
+    JobAssignMessageSchema,
+    JobResultMessageSchema,
+    ResultAckMessageSchema,
+    JobCancelMessageSchema,
+    JobProgressMessageSchema,
+    FetchArtifactMessageSchema,
+    ArtifactMessageSchema,
+    AgentJobMessageSchema,
+    AgentJobResultMessageSchema,
+    ErrorMessageSchema,
+]) satisfies z.ZodType<TerminusMessage>;
@@ -2,6 +2,65 @@
 // TERMINUS PROTOCOL - Common Types
 // =============================================================================
 
+import type { ProtocolFeature } from './version.js';
+
+/**
+ * Machine specifications a node reports in AUTH.
+ */
+export interface NodeSpecs {
+    os: string;
+    arch: string;
+    cpuCores: number;
+    totalMemoryGB: number;
+    nodeVersion: string;
+}
+
+/**
+ * Language an agent script is written in. Nodes advertise runtimes other than
+ * javascript (which every node runs) as 'runtime:<name>' capabilities.
+ */
+export type JobRuntime = 'javascript' | 'python' | 'container' | 'wasm';
+
+/**
+ * Image and limits for a container runtime job. Nodes cap the limits with their
+ * own maximums and only run images available to their container engine.
+ */
+export interface ContainerSpec {
+    image: string;
+    command?: string[];              // Overrides the image's default command
+    cpus?: number;
+    memoryMb?: number;
+    network?: boolean;               // Needs outbound network access (off by default)
+}
+
+/**
+ * Module and budget for a wasm runtime job. Modules are referenced by the hex
+ * SHA-256 of their bytes; fuel is the number of instructions the job may execute.
+ */
+export interface WasmSpec {
+    hash: string;
+    fuel?: number;                   // The control plane's default budget if omitted
+}
+
+/**
+ * What a tool may do on the node. Operators grant these per node; tools needing
+ * anything not granted are not loaded.
+ */
+export type ToolPermission = 'network' | 'shell' | 'filesystem' | 'env';
+
+/**
+ * Describes a node tool: built-in or loaded from a plugin.
+ * Nodes advertise manifests in AUTH so calls can be validated before dispatch.
+ */
+export interface ToolManifest {
+    name: string;                    // Advertised as the 'tool:<name>' capability
+    description: string;
+    version?: string;
+    parameters: Record<string, unknown>;   // JSON Schema for the params object
+    requiredCapabilities?: string[]; // Node capabilities the tool needs, e.g. ['ffmpeg']
+    permissions?: ToolPermission[];
+}
+
 /**
  * Registered node information stored in the registry.
  */
@@ -11,6 +70,14 @@ export interface RegisteredNode {
     agentTypes?: string[];           // Agents this node can execute (e.g., ['travel-planner'])
     wallet?: string;                 // Wallet address for payments
     version: string;
+    protocolVersion: string;         // Negotiated protocol version
+    features: ProtocolFeature[];     // Protocol features enabled for this session
+    specs: NodeSpecs;
+    tools: ToolManifest[];           // Empty for nodes without 'tool-manifests'
+    maxConcurrentJobs: number;       // Job slots; 1 for nodes without 'concurrent-jobs'
+    reservedJobs: number;            // Jobs dispatched to the node and not yet finished
+    labels: Record<string, string>;  // Operator-assigned, e.g. { region: 'eu', tier: 'gpu' }
+    taints: string[];                // Only jobs tolerating every taint are placed here
     status: 'ONLINE' | 'OFFLINE';
     connectedAt: number;
     lastHeartbeat: number;
@@ -38,27 +105,65 @@ export interface AgentDefinition {
 
 /**
  * Run state - execution instance of an agent.
+ * Tracked per job; runId and nodeId refer to the latest attempt.
  */
 export interface RunState {
+    jobId: string;
     runId: string;
     agentId: string;
-    nodeId: string;
-    status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'TIMEOUT';
+    codeHash?: string;               // Agent script or wasm module the job runs, pinned at submission
+    owner?: string;                  // Submitting wallet (proven); unset for anonymous runs
+    nodeId?: string;                 // Unset while the job is still queued
+    status: RunStatus;
     input: unknown;
     output?: unknown;
     error?: string;
+    logs?: string[];
+    metrics?: {
+        startTime: number;
+        endTime: number;
+        durationMs: number;
+        toolCalls?: number;
+        fuelUsed?: number;
+    };
+    artifacts?: JobArtifact[];       // Files the job returned
+    attempts: number;
     createdAt: number;
     startedAt?: number;
     completedAt?: number;
 }
 
+/**
+ * File a job returned, stored on the control plane by content hash.
+ */
+export interface JobArtifact {
+    name: string;
+    hash: string;
+    size: number;
+    contentType: string;
+}
+
+export type RunStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'TIMEOUT' | 'CANCELLED';
+
 /**
  * Event log entry for a run.
+ * Streamed from nodes via JOB_PROGRESS; for agent jobs runId is the jobId.
  */
 export interface RunEvent {
     runId: string;
     eventId: string;
-    type: 'INPUT' | 'STEP' | 'LOG' | 'OUTPUT' | 'ERROR' | 'RETRY';
+    seq: number;                     // Monotonic per run, starting at 1
+    type: RunEventType;
     timestamp: number;
     data: unknown;
 }
+
+export type RunEventType =
+    | 'INPUT'
+    | 'STEP'
+    | 'LOG'                          // data: log line (string)
+    | 'TOOL_CALL'                    // data: { tool, params }
+    | 'TOKEN'                        // data: partial LLM output (string)
+    | 'OUTPUT'
+    | 'ERROR'
+    | 'RETRY';
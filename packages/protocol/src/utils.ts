@@ -1,5 +1,8 @@
-import { randomUUID } from 'crypto';
-import type { BaseMessage, MessageType, TerminusMessage } from './messages.js';
+import { createHash, randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { BaseMessage, MessageType, TerminusMessage, ValidationIssue } from './messages.js';
+import type { ToolManifest } from './types.js';
+import { TerminusMessageSchema } from './schemas.js';
 
 /**
  * Generate a unique trace ID for message correlation.
@@ -19,23 +22,115 @@ export function createBaseMessage(type: MessageType, traceId?: string): BaseMess
     };
 }
 
+export type ParseErrorCode = 'INVALID_JSON' | 'UNKNOWN_MESSAGE_TYPE' | 'INVALID_MESSAGE';
+
 /**
- * Parse and validate an incoming message.
- * Returns null if parsing fails.
+ * Outcome of parsing an incoming message: either a fully validated message or
+ * a structured error that can be reported back to the sender via ERROR.
  */
-export function parseMessage(data: string): TerminusMessage | null {
-    try {
-        const parsed = JSON.parse(data);
+export type ParseResult =
+    | { success: true; message: TerminusMessage }
+    | {
+        success: false;
+        error: {
+            code: ParseErrorCode;
+            message: string;
+            issues: ValidationIssue[];
+        };
+    };
 
-        // Basic validation
-        if (!parsed.type || !parsed.traceId || !parsed.timestamp) {
-            return null;
-        }
+const MESSAGE_TYPES = new Set<string>(TerminusMessageSchema.options.map(o => o.shape.type.value));
 
-        return parsed as TerminusMessage;
+/**
+ * Parse and validate an incoming message against its per-type schema.
+ */
+export function parseMessage(data: string): ParseResult {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(data);
     } catch {
-        return null;
+        return {
+            success: false,
+            error: { code: 'INVALID_JSON', message: 'Message is not valid JSON', issues: [] },
+        };
+    }
+
+    const type = (parsed as { type?: unknown } | null)?.type;
+    if (typeof type !== 'string' || !MESSAGE_TYPES.has(type)) {
+        return {
+            success: false,
+            error: {
+                code: 'UNKNOWN_MESSAGE_TYPE',
+                message: `Unknown message type: ${String(type)}`,
+                issues: [{ path: 'type', message: 'Unknown message type' }],
+            },
+        };
+    }
+
+    const result = TerminusMessageSchema.safeParse(parsed);
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => ({
+            path: issue.path.map(String).join('.'),
+            message: issue.message,
+        }));
+        return {
+            success: false,
+            error: {
+                code: 'INVALID_MESSAGE',
+                message: `Invalid ${type} message: ${issues.map(i => `${i.path || '(root)'}: ${i.message}`).join('; ')}`,
+                issues,
+            },
+        };
+    }
+
+    return { success: true, message: result.data };
+}
+
+const toolParamSchemas = new WeakMap<ToolManifest, z.ZodType>();
+
+/**
+ * Compile a tool manifest's parameters JSON Schema (cached per manifest).
+ * Throws if the schema uses unsupported keywords or unresolvable references.
+ */
+export function compileToolParams(manifest: ToolManifest): z.ZodType {
+    let schema = toolParamSchemas.get(manifest);
+    if (!schema) {
+        schema = z.fromJSONSchema(manifest.parameters);
+        toolParamSchemas.set(manifest, schema);
+    }
+    return schema;
+}
+
+/**
+ * Check tool call params against the tool's manifest. Returns an error message, or null if valid.
+ */
+export function validateToolParams(manifest: ToolManifest, params: unknown): string | null {
+    let schema: z.ZodType;
+    try {
+        schema = compileToolParams(manifest);
+    } catch (error) {
+        return `Tool ${manifest.name} has an unsupported parameters schema: ${(error as Error).message}`;
     }
+
+    const result = schema.safeParse(params);
+    if (result.success) return null;
+    const issues = result.error.issues.map(i => `${i.path.map(String).join('.') || '(root)'}: ${i.message}`);
+    return `Invalid params for ${manifest.name}: ${issues.join('; ')}`;
+}
+
+/**
+ * Content hash (hex SHA-256) used to address modules and other artifacts.
+ */
+export function hashContent(data: Uint8Array | string): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Message a node's wallet signs in AUTH to prove ownership of the wallet.
+ * Binding the AUTH_CHALLENGE nonce makes each signature single-use.
+ */
+export function createWalletAuthMessage(nodeId: string, nonce: string): string {
+    return `terminus-auth:${nodeId}:${nonce}`;
 }
 
 /**
@@ -0,0 +1,111 @@
+// =============================================================================
+// TERMINUS PROTOCOL - Versioning
+// =============================================================================
+// Protocol version and feature negotiation between nodes and the control plane.
+// Bump PROTOCOL_VERSION whenever messages change, and register new behaviour
+// in PROTOCOL_FEATURES with the version that introduced it.
+// =============================================================================
+
+/**
+ * Protocol version spoken by this build.
+ */
+export const PROTOCOL_VERSION = '1.13.0';
+
+/**
+ * Version assumed for nodes that predate negotiation and send no protocolVersion.
+ */
+export const LEGACY_PROTOCOL_VERSION = '0.1.0';
+
+/**
+ * Optional protocol behaviours that can be enabled per session.
+ */
+export type ProtocolFeature =
+    | 'strict-schemas'
+    | 'cancellation'
+    | 'streaming'
+    | 'challenge-auth'
+    | 'session-resume'
+    | 'concurrent-jobs'
+    | 'tool-bridge'
+    | 'tool-manifests'
+    | 'runtimes'
+    | 'container-runtime'
+    | 'wasm-runtime'
+    | 'artifacts'
+    | 'job-artifacts'
+    | 'run-cancellation';
+
+/**
+ * Minimum protocol version that introduced each feature.
+ */
+export const PROTOCOL_FEATURES: Record<ProtocolFeature, string> = {
+    'strict-schemas': '1.0.0',
+    'cancellation': '1.1.0',       // JOB_CANCEL and CANCELLED results
+    'streaming': '1.2.0',          // JOB_PROGRESS events
+    'challenge-auth': '1.3.0',     // AUTH_CHALLENGE nonce signed by the node's identity key
+    'session-resume': '1.4.0',     // Session tokens in AUTH/AUTH_ACK and RESULT_ACK for outbox replay
+    'concurrent-jobs': '1.5.0',    // maxConcurrentJobs in AUTH; the control plane fills every slot
+    'tool-bridge': '1.6.0',        // JOB_ASSIGN tool allowlists; scripts call node tools via `tools`
+    'tool-manifests': '1.7.0',     // Tool manifests (params JSON schema, permissions) in AUTH
+    'runtimes': '1.8.0',           // JOB_ASSIGN runtime, matched against runtime:* capabilities
+    'container-runtime': '1.9.0',  // JOB_ASSIGN container spec for the container runtime
+    'wasm-runtime': '1.10.0',      // JOB_ASSIGN wasm module hash and fuel budget; fuelUsed in JOB_RESULT metrics
+    'artifacts': '1.11.0',         // Code sent by content hash; nodes FETCH_ARTIFACT what they don't have cached
+    'job-artifacts': '1.12.0',     // Files a job leaves in its scratch artifacts/ directory, uploaded in JOB_RESULT
+    'run-cancellation': '1.13.0',  // runId in JOB_CANCEL, so cancelling one attempt never hits a retry of the same job
+};
+
+export interface ProtocolVersionRange {
+    min: string;
+    max: string;
+}
+
+export type VersionNegotiation =
+    | { ok: true; version: string; features: ProtocolFeature[] }
+    | { ok: false; reason: string };
+
+/**
+ * Compare two MAJOR.MINOR.PATCH versions.
+ * Returns a negative number if a < b, 0 if equal, positive if a > b.
+ */
+export function compareVersions(a: string, b: string): number {
+    const pa = a.split('.').map(n => parseInt(n, 10) || 0);
+    const pb = b.split('.').map(n => parseInt(n, 10) || 0);
+    for (let i = 0; i < 3; i++) {
+        const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
+
+/**
+ * All features available at a given protocol version.
+ */
+export function featuresForVersion(version: string): ProtocolFeature[] {
+    return (Object.keys(PROTOCOL_FEATURES) as ProtocolFeature[]).filter(
+        f => compareVersions(version, PROTOCOL_FEATURES[f]) >= 0
+    );
+}
+
+/**
+ * Pick the session version and features for a node.
+ * The session runs at the lower of the node's and the server's versions; only
+ * features the node declared (if it declared any) are enabled.
+ */
+export function negotiateProtocolVersion(
+    nodeVersion: string,
+    range: ProtocolVersionRange,
+    nodeFeatures?: string[]
+): VersionNegotiation {
+    if (compareVersions(nodeVersion, range.min) < 0) {
+        return {
+            ok: false,
+            reason: `Protocol ${nodeVersion} is no longer supported (minimum ${range.min}). Please upgrade your agent node.`,
+        };
+    }
+
+    const version = compareVersions(nodeVersion, range.max) > 0 ? range.max : nodeVersion;
+    const features = featuresForVersion(version).filter(f => !nodeFeatures || nodeFeatures.includes(f));
+
+    return { ok: true, version, features };
+}
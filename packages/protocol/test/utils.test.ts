@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { hashContent, parseMessage, validateToolParams } from '../src/utils.js';
+import type { ToolManifest } from '../src/types.js';
+
+const heartbeat = {
+    type: 'HEARTBEAT',
+    traceId: 'trace-1',
+    timestamp: 1700000000000,
+    payload: { status: 'IDLE', cpuUsage: 10, memoryUsage: 20, activeJobs: 0 },
+};
+
+test('parseMessage accepts a valid message', () => {
+    const result = parseMessage(JSON.stringify(heartbeat));
+    assert.ok(result.success);
+    assert.equal(result.message.type, 'HEARTBEAT');
+});
+
+test('parseMessage reports invalid JSON, unknown types and schema violations', () => {
+    const invalid = parseMessage('{');
+    assert.equal(!invalid.success && invalid.error.code, 'INVALID_JSON');
+
+    const unknown = parseMessage(JSON.stringify({ ...heartbeat, type: 'NOPE' }));
+    assert.equal(!unknown.success && unknown.error.code, 'UNKNOWN_MESSAGE_TYPE');
+
+    const extra = parseMessage(JSON.stringify({ ...heartbeat, payload: { ...heartbeat.payload, extra: true } }));
+    assert.equal(!extra.success && extra.error.code, 'INVALID_MESSAGE');
+
+    const range = parseMessage(JSON.stringify({ ...heartbeat, payload: { ...heartbeat.payload, cpuUsage: 101 } }));
+    assert.ok(!range.success);
+    assert.deepEqual(range.error.issues.map(i => i.path), ['payload.cpuUsage']);
+});
+
+test('parseMessage rejects artifact names that could escape a directory', () => {
+    const result = parseMessage(JSON.stringify({
+        type: 'JOB_RESULT',
+        traceId: 'trace-1',
+        timestamp: 1700000000000,
+        payload: {
+            jobId: 'job-1',
+            runId: 'run-1',
+            status: 'SUCCESS',
+            logs: [],
+            artifacts: [{ name: '../secret', contentType: 'text/plain', content: '' }],
+            metrics: { startTime: 1, endTime: 2, durationMs: 1 },
+        },
+    }));
+    assert.equal(!result.success && result.error.code, 'INVALID_MESSAGE');
+});
+
+test('hashContent is the hex SHA-256 of the content', () => {
+    assert.equal(hashContent('abc'), 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    assert.equal(hashContent(new TextEncoder().encode('abc')), hashContent('abc'));
+});
+
+test('validateToolParams checks params against the manifest schema', () => {
+    const manifest: ToolManifest = {
+        name: 'lookup',
+        description: 'Look something up',
+        parameters: {
+            type: 'object',
+            properties: { query: { type: 'string' } },
+            required: ['query'],
+        },
+        permissions: [],
+    };
+    assert.equal(validateToolParams(manifest, { query: 'x' }), null);
+    assert.match(validateToolParams(manifest, {}) ?? '', /Invalid params for lookup: query/);
+});
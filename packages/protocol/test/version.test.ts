@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    PROTOCOL_FEATURES,
+    PROTOCOL_VERSION,
+    compareVersions,
+    featuresForVersion,
+    negotiateProtocolVersion,
+} from '../src/version.js';
+
+test('compareVersions orders numerically, not lexically', () => {
+    assert.ok(compareVersions('1.10.0', '1.9.0') > 0);
+    assert.ok(compareVersions('1.2.3', '1.2.4') < 0);
+    assert.equal(compareVersions('2.0.0', '2.0.0'), 0);
+    assert.equal(compareVersions('1.0', '1.0.0'), 0);
+});
+
+test('featuresForVersion includes exactly the features introduced at or before the version', () => {
+    assert.deepEqual(featuresForVersion('1.0.0'), ['strict-schemas']);
+    assert.deepEqual(featuresForVersion('1.2.0'), ['strict-schemas', 'cancellation', 'streaming']);
+    assert.deepEqual(featuresForVersion(PROTOCOL_VERSION), Object.keys(PROTOCOL_FEATURES));
+});
+
+test('every feature is introduced at or before the current version', () => {
+    for (const [feature, version] of Object.entries(PROTOCOL_FEATURES)) {
+        assert.ok(compareVersions(version, PROTOCOL_VERSION) <= 0, `${feature} needs ${version}`);
+    }
+});
+
+test('negotiation rejects nodes older than the minimum', () => {
+    const result = negotiateProtocolVersion('0.9.0', { min: '1.0.0', max: '1.5.0' });
+    assert.equal(result.ok, false);
+    assert.match(!result.ok ? result.reason : '', /no longer supported/);
+});
+
+test('negotiation settles on the lower of the two versions', () => {
+    const newer = negotiateProtocolVersion('2.0.0', { min: '1.0.0', max: '1.2.0' });
+    assert.deepEqual(newer, { ok: true, version: '1.2.0', features: ['strict-schemas', 'cancellation', 'streaming'] });
+
+    const older = negotiateProtocolVersion('1.1.0', { min: '1.0.0', max: '1.5.0' });
+    assert.deepEqual(older, { ok: true, version: '1.1.0', features: ['strict-schemas', 'cancellation'] });
+});
+
+test('negotiation only enables features the node declared', () => {
+    const result = negotiateProtocolVersion('1.5.0', { min: '1.0.0', max: '1.5.0' }, ['cancellation', 'concurrent-jobs']);
+    assert.deepEqual(result, { ok: true, version: '1.5.0', features: ['cancellation', 'concurrent-jobs'] });
+});